@@ -0,0 +1,14 @@
+/**
+ * Netlify function serving the Exa and Cerebras API proxy
+ * Keys (EXA_API_KEY, CEREBRAS_API_KEY) and quotas come from the site's environment variables.
+ */
+
+import { handleProxyRequest, proxyConfigFromVariables } from '../../src/proxy';
+
+const proxyConfig = proxyConfigFromVariables(process.env);
+
+export default (request: Request) => handleProxyRequest(request, proxyConfig);
+
+export const config = {
+  path: ['/api/exa/*', '/api/cerebras/*', '/api/proxy/*']
+};
@@ -1,8 +1,115 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ArrowRight, ArrowUpRight, ChevronDown, Eye, EyeOff, Menu, X } from 'lucide-react';
+import { ArrowRight, ArrowUpRight, ChevronDown, Download, Eye, EyeOff, FileText, Globe, Menu, Pencil, Square, Trash2, Upload, X } from 'lucide-react';
 import './styles.css';
-import { ResearchAPI, ResearchResult, LayerSummary, ResearchSource, ProgressUpdate } from './api';
-import { JSX } from 'react/jsx-runtime';
+import { ResearchAPI, ResearchResult, LayerSummary, ResearchSource, ProgressUpdate, ResearchCheckpoint, FollowUpMessage, SearchSettings, SEARCH_CATEGORIES, normalizeSearchSettings } from './api';
+import { ResearchHistory, HistoryEntry, matchesHistorySearch } from './history';
+import { exportReport, ExportFormat } from './export';
+import { parseBundle } from './bundle';
+import { PROXY_ENDPOINTS, proxyHasKeys } from './environment';
+import { DOCUMENT_EXTENSIONS, documentFileName, isLocalDocument, parseDocumentFile } from './documents';
+import { CEREBRAS_PROVIDER, LLMProviderConfig, normalizeLLMProviders } from './llm';
+import { SearchProviderConfig } from './search';
+import ReportMarkdown from './ReportMarkdown';
+
+// Search settings form, as typed; normalizeSearchSettings validates it when a run starts
+interface SearchForm {
+  type: string;
+  category: string;
+  include_domains: string;
+  exclude_domains: string;
+  start_published_date: string;
+  end_published_date: string;
+  num_results: string;
+}
+
+const EMPTY_SEARCH_FORM: SearchForm = {
+  type: '',
+  category: '',
+  include_domains: '',
+  exclude_domains: '',
+  start_published_date: '',
+  end_published_date: '',
+  num_results: ''
+};
+
+// Search provider choices, as typed; several checked providers are searched together
+interface ProviderForm {
+  exa: boolean;
+  searxng: boolean;
+  searxng_url: string;
+  json: boolean;
+  json_url: string;
+  json_api_key: string;
+  fixture: boolean;
+  fixture_url: string;
+}
+
+const DEFAULT_PROVIDER_FORM: ProviderForm = {
+  exa: true,
+  searxng: false,
+  searxng_url: '',
+  json: false,
+  json_url: '',
+  json_api_key: '',
+  fixture: false,
+  fixture_url: ''
+};
+
+function searchProvidersFromForm(form: ProviderForm): SearchProviderConfig[] {
+  const url = (value: string, label: string) => {
+    if (!value.trim()) throw new Error(`Enter the ${label} URL`);
+    return value.trim();
+  };
+  const providers: SearchProviderConfig[] = [];
+  if (form.exa) providers.push({ type: 'exa' });
+  if (form.searxng) providers.push({ type: 'searxng', url: url(form.searxng_url, 'SearxNG') });
+  if (form.json) providers.push({ type: 'json', url: url(form.json_url, 'JSON search'), apiKey: form.json_api_key.trim() || undefined });
+  if (form.fixture) providers.push({ type: 'fixture', url: url(form.fixture_url, 'fixture') });
+  if (providers.length === 0) throw new Error('Choose at least one search provider');
+  return providers;
+}
+
+// Model provider choices, as typed; Cerebras and an OpenAI-compatible endpoint can be cycled together
+interface ModelForm {
+  cerebras: boolean;
+  custom: boolean;
+  name: string;
+  base_url: string;
+  auth_header: string;
+  api_key: string;
+  models: string;
+  context_window: string;
+}
+
+const DEFAULT_MODEL_FORM: ModelForm = {
+  cerebras: true,
+  custom: false,
+  name: 'local',
+  base_url: '',
+  auth_header: '',
+  api_key: '',
+  models: '',
+  context_window: ''
+};
+
+function modelProvidersFromForm(form: ModelForm): LLMProviderConfig[] {
+  const providers: LLMProviderConfig[] = [];
+  if (form.cerebras) providers.push({ name: CEREBRAS_PROVIDER });
+  if (form.custom) {
+    const models = form.models.split(',').map(model => model.trim()).filter(Boolean);
+    const contextWindow = form.context_window.trim() ? Number(form.context_window) : null;
+    providers.push({
+      name: form.name,
+      baseUrl: form.base_url,
+      authHeader: form.auth_header,
+      apiKey: form.api_key,
+      models,
+      contextWindows: contextWindow !== null ? Object.fromEntries(models.map(model => [model, contextWindow])) : undefined
+    });
+  }
+  if (providers.length === 0) throw new Error('Choose at least one model provider');
+  return normalizeLLMProviders(providers);
+}
 
 const App = () => {
   const [searchQuery, setSearchQuery] = useState('');
@@ -21,6 +128,29 @@ const App = () => {
   const [currentQuery, setCurrentQuery] = useState<string>('');
   const [sourcesFound, setSourcesFound] = useState<number>(0);
   const [realtimeSources, setRealtimeSources] = useState<ResearchSource[]>([]);
+  const [showVerificationDetails, setShowVerificationDetails] = useState(false);
+
+  // Saved research history (IndexedDB)
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [historySearch, setHistorySearch] = useState('');
+  const [renamingEntryId, setRenamingEntryId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  // Report export menu
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+
+  // Follow-up questions on the open report, saved back to its history entry
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
+  const [followUpInput, setFollowUpInput] = useState('');
+  const [followUpPending, setFollowUpPending] = useState<'answer' | 'search' | null>(null);
+  const [followUpError, setFollowUpError] = useState<string | null>(null);
+  const followUpAbortRef = useRef<AbortController | null>(null);
+
+  // Last checkpoint of an unfinished run, offered for resuming
+  const [pendingCheckpoint, setPendingCheckpoint] = useState<ResearchCheckpoint | null>(null);
   
   // Mobile sidebar state
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false);
@@ -80,6 +210,7 @@ const App = () => {
   const [showExaKey, setShowExaKey] = useState(false);
   const [showCerebrasKey, setShowCerebrasKey] = useState(false);
   const [apiKeysConfigured, setApiKeysConfigured] = useState(false);
+  const [serverKeysAvailable, setServerKeysAvailable] = useState(false); // The /api proxy holds both keys
   
   // Activity timeline - each action becomes a tab
   const [activityTabs, setActivityTabs] = useState<Array<{
@@ -104,6 +235,10 @@ const App = () => {
   
   // Track last added tab type to prevent duplicates
   const lastAddedTabType = useRef<string | null>(null);
+
+  // Controller for the running research so it can be stopped
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const timedOutRef = useRef(false); // The inactivity timer stopped the current run
   
   // API key notification state
   const [showApiKeyNotification, setShowApiKeyNotification] = useState(false);
@@ -128,9 +263,47 @@ const App = () => {
     lastUpdate: null
   });
   
-  // Research settings - optimized for 40-50+ sources
-  const maxLayers = 4;
-  const sourcesPerLayer = 20;
+  // Research settings - initial layer plus one drill-down, ~48 sources total
+  const maxLayers = 2;
+  const sourcesPerLayer = 24;
+
+  // Exa search settings for new runs, saved in localStorage
+  const [searchForm, setSearchForm] = useState<SearchForm>(EMPTY_SEARCH_FORM);
+  let searchSettings: SearchSettings | undefined;
+  let searchSettingsError: string | null = null;
+  try {
+    searchSettings = normalizeSearchSettings(searchForm);
+  } catch (error) {
+    searchSettingsError = error instanceof Error ? error.message : String(error);
+  }
+
+  // Uploaded documents for new runs, parsed in the browser and kept for this session only
+  const [documents, setDocuments] = useState<ResearchSource[]>([]);
+  const [documentsOnly, setDocumentsOnly] = useState(false);
+  const [parsingDocuments, setParsingDocuments] = useState(false);
+  const [documentErrors, setDocumentErrors] = useState<string[]>([]);
+  const [isDraggingDocuments, setIsDraggingDocuments] = useState(false);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+
+  // Search providers for new runs, saved in localStorage
+  const [providerForm, setProviderForm] = useState<ProviderForm>(DEFAULT_PROVIDER_FORM);
+  let searchProviders: SearchProviderConfig[] | undefined;
+  let searchProvidersError: string | null = null;
+  try {
+    searchProviders = searchProvidersFromForm(providerForm);
+  } catch (error) {
+    searchProvidersError = error instanceof Error ? error.message : String(error);
+  }
+
+  // Model providers for new runs, saved in localStorage
+  const [modelForm, setModelForm] = useState<ModelForm>(DEFAULT_MODEL_FORM);
+  let modelProviders: LLMProviderConfig[] | undefined;
+  let modelProvidersError: string | null = null;
+  try {
+    modelProviders = modelProvidersFromForm(modelForm);
+  } catch (error) {
+    modelProvidersError = error instanceof Error ? error.message : String(error);
+  }
 
   const questions = [
     "What are the most promising approaches to fusion energy?",
@@ -149,16 +322,117 @@ const App = () => {
     if (savedCerebrasKey) {
       setCerebrasApiKey(savedCerebrasKey);
     }
+
+    let savedProviderForm = DEFAULT_PROVIDER_FORM;
+    try {
+      savedProviderForm = { ...DEFAULT_PROVIDER_FORM, ...JSON.parse(localStorage.getItem('search_providers') || '{}') };
+      setProviderForm(savedProviderForm);
+    } catch (error) {
+      console.error('❌ Failed to load search providers:', error);
+    }
+
+    let savedModelForm = DEFAULT_MODEL_FORM;
+    try {
+      savedModelForm = { ...DEFAULT_MODEL_FORM, ...JSON.parse(localStorage.getItem('llm_providers') || '{}') };
+      setModelForm(savedModelForm);
+    } catch (error) {
+      console.error('❌ Failed to load model providers:', error);
+    }
+
+    try {
+      const savedSearchForm = localStorage.getItem('search_settings');
+      if (savedSearchForm) {
+        setSearchForm({ ...EMPTY_SEARCH_FORM, ...JSON.parse(savedSearchForm) });
+      }
+    } catch (error) {
+      console.error('❌ Failed to load search settings:', error);
+    }
     
-    const configured = !!(savedExaKey && savedCerebrasKey);
+    // An Exa key is only needed while Exa is one of the search providers, a Cerebras key while Cerebras runs models
+    const configured = !!((savedCerebrasKey || !savedModelForm.cerebras) && (savedExaKey || !savedProviderForm.exa));
     setApiKeysConfigured(configured);
     
     // Set API keys in the ResearchAPI if both are available
     if (configured) {
-      ResearchAPI.setApiKeys(savedExaKey!, savedCerebrasKey!);
+      ResearchAPI.setApiKeys(savedExaKey || '', savedCerebrasKey || '');
     }
+
+    // When the deployment's proxy holds the keys, route all calls through it and need none from the user
+    proxyHasKeys().then(available => {
+      if (!available) return;
+      ResearchAPI.configure({ endpoints: PROXY_ENDPOINTS, keysOnServer: true });
+      setServerKeysAvailable(true);
+      setApiKeysConfigured(true);
+    });
   }, []);
 
+  // Keep the engine's providers in step with the form; configure() for the proxy starts from the defaults
+  const searchProvidersKey = JSON.stringify(searchProviders || null);
+  useEffect(() => {
+    if (searchProviders) ResearchAPI.setSearchProviders(searchProviders);
+  }, [searchProvidersKey, serverKeysAvailable]);
+
+  const modelProvidersKey = JSON.stringify(modelProviders || null);
+  useEffect(() => {
+    if (modelProviders) ResearchAPI.setLLMProviders(modelProviders);
+  }, [modelProvidersKey, serverKeysAvailable]);
+
+  const updateProviderForm = <K extends keyof ProviderForm>(field: K, value: ProviderForm[K]) => {
+    const form = { ...providerForm, [field]: value };
+    setProviderForm(form);
+    localStorage.setItem('search_providers', JSON.stringify(form));
+    if (field === 'exa') updateApiKeysConfigured(exaApiKey, cerebrasApiKey, form);
+  };
+
+  const updateModelForm = <K extends keyof ModelForm>(field: K, value: ModelForm[K]) => {
+    const form = { ...modelForm, [field]: value };
+    setModelForm(form);
+    localStorage.setItem('llm_providers', JSON.stringify(form));
+    if (field === 'cerebras') updateApiKeysConfigured(exaApiKey, cerebrasApiKey, providerForm, form);
+  };
+
+  const updateSearchForm = (field: keyof SearchForm, value: string) => {
+    const form = { ...searchForm, [field]: value };
+    setSearchForm(form);
+    localStorage.setItem('search_settings', JSON.stringify(form));
+  };
+
+  const resetSearchForm = () => {
+    setSearchForm(EMPTY_SEARCH_FORM);
+    localStorage.removeItem('search_settings');
+  };
+
+  // Parse dropped or picked files one at a time; uploading the same file again replaces the earlier copy,
+  // while a different file that shares its name is kept alongside it
+  const handleDocumentFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setParsingDocuments(true);
+    setDocumentErrors([]);
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const document = await parseDocumentFile(file);
+        setDocuments(prev => [...prev.filter(existing => existing.url !== document.url), document]);
+      } catch (error) {
+        console.error(`❌ Failed to parse ${file.name}:`, error);
+        errors.push(error instanceof Error ? error.message : `${file.name}: could not be read`);
+      }
+    }
+    setDocumentErrors(errors);
+    setParsingDocuments(false);
+  };
+
+  const removeDocument = (url: string) => {
+    setDocuments(prev => prev.filter(document => document.url !== url));
+  };
+
+  // Uploaded documents have nothing to open in a new tab
+  const openSource = (source: ResearchSource) => {
+    if (!isLocalDocument(source)) {
+      window.open(source.url, '_blank');
+    }
+  };
+
   // Save API keys to localStorage when they change
   const handleExaKeyChange = (key: string) => {
     setExaApiKey(key);
@@ -180,9 +454,9 @@ const App = () => {
     updateApiKeysConfigured(exaApiKey, key);
   };
 
-  const updateApiKeysConfigured = (exaKey: string, cerebrasKey: string) => {
-    const configured = !!(exaKey.trim() && cerebrasKey.trim());
-    setApiKeysConfigured(configured);
+  const updateApiKeysConfigured = (exaKey: string, cerebrasKey: string, providers: ProviderForm = providerForm, models: ModelForm = modelForm) => {
+    const configured = !!((cerebrasKey.trim() || !models.cerebras) && (exaKey.trim() || !providers.exa));
+    setApiKeysConfigured(configured || serverKeysAvailable);
     
     // Update the ResearchAPI with the new keys
     ResearchAPI.setApiKeys(exaKey.trim(), cerebrasKey.trim());
@@ -227,6 +501,16 @@ const App = () => {
         setActiveTab('settings'); // Switch to settings tab
         return;
       }
+      if (searchSettingsError || searchProvidersError) {
+        setResearchError(`Please fix the search settings in the Settings tab: ${searchSettingsError || searchProvidersError}`);
+        setActiveTab('settings');
+        return;
+      }
+      if (modelProvidersError) {
+        setResearchError(`Please fix the model providers in the Settings tab: ${modelProvidersError}`);
+        setActiveTab('settings');
+        return;
+      }
 
       const query = searchQuery.trim();
       setCurrentSearch(query);
@@ -240,6 +524,7 @@ const App = () => {
       setIsResearching(true);
       setResearchResult(null);
       setResearchError(null);
+      resetFollowUps();
       setCurrentStage('');
       setCurrentQuery('');
       setSourcesFound(0);
@@ -253,13 +538,20 @@ const App = () => {
       // Add initial query tab
       addActivityTab('Starting Research', `"${query}"`, 'query');
 
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      timedOutRef.current = false;
+
       try {
         console.log('🔬 Starting real research for:', query);
         
         const result = await ResearchAPI.performResearch({
           query,
           max_layers: maxLayers,
-          sources_per_layer: sourcesPerLayer
+          sources_per_layer: sourcesPerLayer,
+          search: searchSettings,
+          documents: documents.length > 0 ? documents : undefined,
+          documents_only: documents.length > 0 && documentsOnly ? true : undefined
         }, (update: ProgressUpdate) => {
           // Reset timer on each update
           setLastActivityTime(new Date());
@@ -291,7 +583,7 @@ const App = () => {
               content: source.snippet, // Use snippet as content for now
               word_count: source.snippet.length,
               exa_score: 0.8,
-              layer: 1,
+              layer: source.layer || 1,
               query_used: "",
               relevance_score: 0.8,
               domain: source.domain
@@ -307,26 +599,218 @@ const App = () => {
               return [...newSources, ...prev]; // Add new sources at top
             });
           }
-        });
+        }, { signal: abortController.signal, onCheckpoint: handleCheckpoint });
 
-        console.log('✅ Research completed:', result);
+        console.log(result.status === 'cancelled' ? '⏹ Research stopped:' : '✅ Research completed:', result);
         setResearchResult(result);
         setRealtimeSources(result.all_sources);
         setProgress(100);
         setIsResearching(false);
+        setShowTimeoutPopup(false); // Partial, stopped and timed-out runs are shown with a banner instead
+        saveToHistory(result, timedOutRef.current);
+        if (result.status === 'completed') {
+          clearCheckpoint();
+        }
         
       } catch (error) {
         console.error('❌ Research failed:', error);
-        setResearchError(error instanceof Error ? error.message : 'Research failed');
+        if (!timedOutRef.current) {
+          setResearchError(error instanceof Error ? error.message : 'Research failed');
+        }
         setIsResearching(false);
         setShowTimeoutPopup(true);
         addActivityTab('Error', error instanceof Error ? error.message : 'Research failed', 'error');
+      } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+        }
+      }
+    }
+  };
+
+  const refreshHistory = async () => {
+    try {
+      setHistoryEntries(await ResearchHistory.list());
+    } catch (error) {
+      console.error('❌ Failed to load research history:', error);
+    }
+  };
+
+  // Persist each completed stage so an interrupted run can pick up where it stopped
+  const handleCheckpoint = (checkpoint: ResearchCheckpoint) => {
+    setPendingCheckpoint(checkpoint);
+    ResearchHistory.saveCheckpoint(checkpoint).catch(error => {
+      console.error('❌ Failed to save checkpoint:', error);
+    });
+  };
+
+  const clearCheckpoint = () => {
+    setPendingCheckpoint(null);
+    ResearchHistory.clearCheckpoint().catch(error => {
+      console.error('❌ Failed to clear checkpoint:', error);
+    });
+  };
+
+  const handleResume = () => {
+    if (pendingCheckpoint) {
+      setShowTimeoutPopup(false);
+      setResearchError(null);
+      handleSuggestedSearch(pendingCheckpoint.request.query, pendingCheckpoint);
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!researchResult) return;
+    setShowExportMenu(false);
+    setExportingFormat(format);
+    try {
+      await exportReport(researchResult, format, pendingCheckpoint);
+    } catch (error) {
+      console.error(`❌ Export to ${format} failed:`, error);
+      setResearchError(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // Load a shared JSON bundle into history and open it; an embedded checkpoint becomes resumable
+  const handleImportBundle = async (file: File) => {
+    try {
+      const bundle = parseBundle(await file.text());
+      const entry = await ResearchHistory.save(bundle.result);
+      await refreshHistory();
+      if (bundle.checkpoint) {
+        handleCheckpoint(bundle.checkpoint);
       }
+      openHistoryEntry(entry);
+      setHistoryNotice(`Imported "${entry.title}"${bundle.checkpoint ? ' (can be resumed)' : bundle.checkpoint_dropped ? ' (its checkpoint is damaged or from an older version, so it cannot be resumed)' : ''}`);
+    } catch (error) {
+      console.error('❌ Bundle import failed:', error);
+      setHistoryNotice(error instanceof Error ? error.message : 'Bundle import failed');
+    }
+  };
+
+  // Keep finished, partial and timed-out runs; runs the user stopped are usually abandoned on purpose
+  const saveToHistory = async (result: ResearchResult, timedOut: boolean = false) => {
+    if (result.status === 'cancelled' && !timedOut) return;
+    try {
+      const entry = await ResearchHistory.save(result);
+      setHistoryEntryId(entry.id);
+      await refreshHistory();
+    } catch (error) {
+      console.error('❌ Failed to save research to history:', error);
+    }
+  };
+
+  // Stop any pending follow-up and forget the previous report's chat state
+  const resetFollowUps = () => {
+    followUpAbortRef.current?.abort();
+    setHistoryEntryId(null);
+    setFollowUpInput('');
+    setFollowUpError(null);
+  };
+
+  // Answer a question about the open report from its sources; with search, look for new sources first
+  const handleFollowUp = async (question: string, search: boolean = false) => {
+    const asked = question.trim();
+    if (!researchResult || !asked || followUpPending) return;
+    if (!apiKeysConfigured) {
+      setFollowUpError('Please configure your API keys in the Settings tab before asking follow-up questions.');
+      return;
+    }
+
+    // Escalating re-asks the last question, so it is not added again
+    const userTurn: FollowUpMessage[] = search ? [] : [{ role: 'user', content: asked, timestamp: new Date().toISOString() }];
+    const asking = { ...researchResult, follow_ups: [...(researchResult.follow_ups || []), ...userTurn] };
+    setResearchResult(asking);
+    setFollowUpInput('');
+    setFollowUpError(null);
+    setFollowUpPending(search ? 'search' : 'answer');
+
+    const abortController = new AbortController();
+    followUpAbortRef.current = abortController;
+    try {
+      // The engine sees the conversation before this question
+      const reply = await ResearchAPI.answerFollowUp(researchResult, asked, { search, signal: abortController.signal });
+      const allSources = [...asking.all_sources, ...reply.new_sources];
+      const answered: ResearchResult = {
+        ...asking,
+        all_sources: allSources,
+        total_sources: allSources.length,
+        follow_ups: [...asking.follow_ups, {
+          role: 'assistant',
+          content: reply.answer,
+          timestamp: new Date().toISOString(),
+          coverage: reply.coverage,
+          searched: search
+        }]
+      };
+      setResearchResult(answered);
+      setRealtimeSources(allSources);
+      setSourcesFound(allSources.length);
+      if (historyEntryId) {
+        ResearchHistory.updateResult(historyEntryId, answered)
+          .then(refreshHistory)
+          .catch(error => console.error('❌ Failed to save follow-up to history:', error));
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      console.error('❌ Follow-up question failed:', error);
+      setFollowUpError(error instanceof Error ? error.message : 'The follow-up question could not be answered');
+    } finally {
+      if (followUpAbortRef.current === abortController) {
+        followUpAbortRef.current = null;
+        setFollowUpPending(null);
+      }
+    }
+  };
+
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    if (isResearching) return;
+    resetFollowUps();
+    setHistoryEntryId(entry.id);
+    setCurrentSearch(entry.query);
+    setHasSearched(true);
+    setResearchResult(entry.result);
+    setResearchError(null);
+    setRealtimeSources(entry.result.all_sources);
+    setSourcesFound(entry.result.total_sources);
+    setProgress(100);
+    setActivityTabs([]);
+    setShowVerificationDetails(false);
+    setIsMobileSidebarOpen(false);
+  };
+
+  const renameHistoryEntry = async (id: string) => {
+    try {
+      await ResearchHistory.rename(id, renameValue);
+      await refreshHistory();
+    } catch (error) {
+      console.error('❌ Failed to rename history entry:', error);
+    }
+    setRenamingEntryId(null);
+  };
+
+  const deleteHistoryEntry = async (entry: HistoryEntry) => {
+    if (!window.confirm(`Delete "${entry.title}" from history?`)) return;
+    try {
+      await ResearchHistory.remove(entry.id);
+      await refreshHistory();
+    } catch (error) {
+      console.error('❌ Failed to delete history entry:', error);
+    }
+  };
+
+  // Stop the running research; the engine returns what it has collected so far
+  const handleStopResearch = () => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      setCurrentStage('Stopping research...');
     }
   };
 
   // Helper function to immediately search with a suggested question
-  const handleSuggestedSearch = async (question: string) => {
+  const handleSuggestedSearch = async (question: string, resumeFrom?: ResearchCheckpoint) => {
     if (!isResearching) {
       setSearchQuery(question);
       
@@ -336,6 +820,16 @@ const App = () => {
         setActiveTab('settings'); // Switch to settings tab
         return;
       }
+      if (searchSettingsError || searchProvidersError) {
+        setResearchError(`Please fix the search settings in the Settings tab: ${searchSettingsError || searchProvidersError}`);
+        setActiveTab('settings');
+        return;
+      }
+      if (modelProvidersError) {
+        setResearchError(`Please fix the model providers in the Settings tab: ${modelProvidersError}`);
+        setActiveTab('settings');
+        return;
+      }
 
       const query = question.trim();
       setCurrentSearch(query);
@@ -349,6 +843,7 @@ const App = () => {
       setIsResearching(true);
       setResearchResult(null);
       setResearchError(null);
+      resetFollowUps();
       setCurrentStage('');
       setCurrentQuery('');
       setSourcesFound(0);
@@ -360,15 +855,22 @@ const App = () => {
       setActiveTab('activity');
 
       // Add initial query tab
-      addActivityTab('Starting Research', `"${query}"`, 'query');
+      addActivityTab(resumeFrom ? 'Resuming Research' : 'Starting Research', `"${query}"`, 'query');
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      timedOutRef.current = false;
 
       try {
-        console.log('🔬 Starting real research for:', query);
+        console.log(resumeFrom ? `♻️ Resuming research from ${resumeFrom.stage} checkpoint:` : '🔬 Starting real research for:', query);
         
-        const result = await ResearchAPI.performResearch({
+        const result = await ResearchAPI.performResearch(resumeFrom ? resumeFrom.request : {
           query,
           max_layers: maxLayers,
-          sources_per_layer: sourcesPerLayer
+          sources_per_layer: sourcesPerLayer,
+          search: searchSettings,
+          documents: documents.length > 0 ? documents : undefined,
+          documents_only: documents.length > 0 && documentsOnly ? true : undefined
         }, (update: ProgressUpdate) => {
           // Reset timer on each update
           setLastActivityTime(new Date());
@@ -414,7 +916,7 @@ const App = () => {
               content: source.snippet, // Use snippet as content for now
               word_count: source.snippet.length,
               exa_score: 0.8,
-              layer: 1,
+              layer: source.layer || 1,
               query_used: "",
               relevance_score: 0.8,
               domain: source.domain
@@ -430,24 +932,43 @@ const App = () => {
               return [...newSources, ...prev]; // Add new sources at top
             });
           }
-        });
+        }, { signal: abortController.signal, onCheckpoint: handleCheckpoint, resumeFrom });
 
-        console.log('✅ Research completed:', result);
+        console.log(result.status === 'cancelled' ? '⏹ Research stopped:' : '✅ Research completed:', result);
         setResearchResult(result);
         setRealtimeSources(result.all_sources);
         setProgress(100);
         setIsResearching(false);
+        setShowTimeoutPopup(false); // Partial, stopped and timed-out runs are shown with a banner instead
+        saveToHistory(result, timedOutRef.current);
+        if (result.status === 'completed') {
+          clearCheckpoint();
+        }
         
       } catch (error) {
         console.error('❌ Research failed:', error);
-        setResearchError(error instanceof Error ? error.message : 'Research failed');
+        if (!timedOutRef.current) {
+          setResearchError(error instanceof Error ? error.message : 'Research failed');
+        }
         setIsResearching(false);
         setShowTimeoutPopup(true);
         addActivityTab('Error', error instanceof Error ? error.message : 'Research failed', 'error');
+      } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+        }
       }
     }
   };
 
+  // Load saved reports and any unfinished run on mount
+  useEffect(() => {
+    refreshHistory();
+    ResearchHistory.loadCheckpoint()
+      .then(checkpoint => setPendingCheckpoint(checkpoint))
+      .catch(error => console.error('❌ Failed to load checkpoint:', error));
+  }, []);
+
   // Check API health on mount and show notification if needed
   useEffect(() => {
     const checkHealth = async () => {
@@ -549,8 +1070,13 @@ const App = () => {
         if (!lastActivity || now.getTime() - lastActivity.getTime() > 2000) {
           setTimeLeft(prev => {
             if (prev <= 1) {
-              setShowTimeoutPopup(true);
-              setIsResearching(false);
+              // Stop the run and show what it gathered; it stays in progress until the engine has unwound,
+              // so no new run can start and share the researcher with it
+              if (!timedOutRef.current && abortControllerRef.current) {
+                timedOutRef.current = true;
+                abortControllerRef.current.abort();
+                setCurrentStage('Timed out, keeping what was gathered...');
+              }
               return 0;
             }
             return prev - 1;
@@ -587,159 +1113,538 @@ const App = () => {
     }).replace(/^0/, '');
   };
 
-  const formatMarkdownText = (text: string) => {
-    // First handle markdown headings by converting them to proper HTML structure
-    const processMarkdown = (input: string) => {
-      // Convert markdown to structured content
-      const lines = input.split('\n');
-      const processedLines = [];
-      
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        // Handle headings
-        if (line.startsWith('### ')) {
-          processedLines.push({
-            type: 'h3',
-            content: line.substring(4).trim()
-          });
-        } else if (line.startsWith('## ')) {
-          processedLines.push({
-            type: 'h2', 
-            content: line.substring(3).trim()
-          });
-        } else if (line.startsWith('# ')) {
-          processedLines.push({
-            type: 'h1',
-            content: line.substring(2).trim()
-          });
-        } else if (line.trim() === '') {
-          processedLines.push({
-            type: 'break',
-            content: ''
-          });
-        } else {
-          processedLines.push({
-            type: 'text',
-            content: line
-          });
-        }
-      }
-      
-      return processedLines;
-    };
+  // Follow-up chat under the report: earlier turns, the pending answer and the question box
+  const renderFollowUpChat = () => {
+    if (!researchResult) return null;
+    const messages = researchResult.follow_ups || [];
+    const lastQuestion = [...messages].reverse().find(message => message.role === 'user')?.content;
 
-    const processedContent = processMarkdown(text);
-    
-    // Convert to JSX elements
-    const elements: JSX.Element[] = [];
-    let textBuffer: string[] = [];
-    let key = 0;
-    
-    const flushTextBuffer = () => {
-      if (textBuffer.length > 0) {
-        const textContent = textBuffer.join('\n');
-        elements.push(
-          <div key={`text-${key++}`} className="mb-4 text-sm font-light font-['Space_Grotesk'] leading-relaxed">
-            {formatInlineMarkdown(textContent)}
+    return (
+      <>
+        {messages.map((message, index) => message.role === 'user' ? (
+          <div key={index} className="flex justify-end">
+            <div className="bg-gradient-to-b from-[#F05A28] to-[#E04A18] text-white px-4 sm:px-6 py-3 rounded-2xl max-w-[85%] sm:max-w-[80%] shadow-lg">
+              <div className="text-sm sm:text-base font-medium font-space-grotesk">{message.content}</div>
+            </div>
           </div>
-        );
-        textBuffer = [];
-      }
-    };
-    
-    processedContent.forEach((item, index) => {
-      if (item.type === 'h1') {
-        flushTextBuffer();
-        elements.push(
-          <h1 key={`h1-${key++}`} className="text-2xl font-bold font-['Space_Grotesk'] leading-tight mb-6 mt-8 text-white">
-            {item.content}
-          </h1>
-        );
-      } else if (item.type === 'h2') {
-        flushTextBuffer();
-        elements.push(
-          <h2 key={`h2-${key++}`} className="text-xl font-semibold font-['Space_Grotesk'] leading-tight mb-4 mt-6 text-white">
-            {item.content}
-          </h2>
-        );
-      } else if (item.type === 'h3') {
-        flushTextBuffer();
-        elements.push(
-          <h3 key={`h3-${key++}`} className="text-lg font-medium font-['Space_Grotesk'] leading-tight mb-3 mt-5 text-white">
-            {item.content}
-          </h3>
-        );
-      } else if (item.type === 'break') {
-        // Don't add breaks to text buffer, just flush if there's content
-        if (textBuffer.length > 0) {
-          flushTextBuffer();
-        }
-      } else if (item.type === 'text' && item.content.trim()) {
-        textBuffer.push(item.content);
-      }
-    });
-    
-    // Flush any remaining text
-    flushTextBuffer();
-    
-    return elements;
+        ) : (
+          <div key={index} className="flex justify-start">
+            <div className="bg-white/10 backdrop-blur-md text-white px-4 sm:px-6 py-3 sm:py-4 rounded-2xl max-w-[95%] sm:max-w-[90%] border border-white/20 shadow-lg">
+              {message.searched && (
+                <div className="mb-2 flex items-center gap-1.5 text-xs text-white/50 font-space-grotesk">
+                  <Globe className="w-3 h-3" /> Searched the web for new sources
+                </div>
+              )}
+              <div className="text-sm sm:text-base font-light font-space-grotesk leading-relaxed">
+                <ReportMarkdown
+                  markdown={message.content}
+                  sources={researchResult.all_sources}
+                  onCitationClick={handleCitationClick}
+                  anchors={false}
+                />
+              </div>
+              {/* Offer a targeted search when the collected sources fell short */}
+              {message.coverage !== 'full' && !message.searched && index === messages.length - 1 && lastQuestion && !researchResult.settings?.documents_only && (
+                <div className="mt-2 pt-2 border-t border-white/10 flex flex-wrap items-center gap-3 text-xs font-space-grotesk text-yellow-300/90">
+                  {message.coverage === 'none' ? 'The collected sources do not cover this.' : 'The collected sources only partly cover this.'}
+                  <button
+                    className="flex items-center gap-1 text-[#F05A28] hover:text-[#FF6A38] underline disabled:opacity-50"
+                    onClick={() => handleFollowUp(lastQuestion, true)}
+                    disabled={followUpPending !== null}
+                  >
+                    <Globe className="w-3 h-3" /> Search the web for more
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {followUpPending && (
+          <div className="flex justify-start">
+            <div className="flex items-center gap-3 bg-white/5 text-white/60 px-4 sm:px-6 py-3 rounded-2xl border border-white/10 text-sm font-light font-space-grotesk">
+              <div className="w-4 h-4 border-2 border-orange-400 border-t-transparent rounded-full animate-spin" />
+              {followUpPending === 'search' ? 'Searching the web and reading new sources...' : `Reading ${researchResult.all_sources.length} sources...`}
+              <button
+                className="text-white/50 hover:text-white"
+                onClick={() => followUpAbortRef.current?.abort()}
+                title="Stop"
+              >
+                <Square className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        )}
+
+        {followUpError && (
+          <div className="flex justify-start">
+            <div className="bg-red-500/10 text-red-300 px-4 sm:px-6 py-3 rounded-2xl border border-red-500/20 text-sm font-light font-space-grotesk">
+              {followUpError}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            className="flex-1 bg-white/5 border border-white/15 rounded-lg px-4 py-2.5 text-white text-sm placeholder:text-white/40 focus:outline-none focus:border-orange-400 transition-colors font-space-grotesk"
+            placeholder="Ask a follow-up question about this report..."
+            value={followUpInput}
+            onChange={(e) => setFollowUpInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleFollowUp(followUpInput);
+            }}
+            disabled={followUpPending !== null}
+          />
+          <button
+            className="px-3 py-2.5 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+            onClick={() => handleFollowUp(followUpInput)}
+            disabled={followUpPending !== null || !followUpInput.trim()}
+            title="Answer from this report's sources"
+          >
+            <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      </>
+    );
   };
 
-  const formatInlineMarkdown = (text: string) => {
-    // Handle bold text and other inline formatting
-    const parts = [];
-    let currentIndex = 0;
-    
-    // Find all **text** patterns for bold
-    const boldRegex = /\*\*(.*?)\*\*/g;
-    let match;
-    
-    while ((match = boldRegex.exec(text)) !== null) {
-      // Add text before the match
-      if (match.index > currentIndex) {
-        parts.push(
-          <span key={`text-${currentIndex}`}>
-            {text.slice(currentIndex, match.index)}
-          </span>
-        );
-      }
-      
-      // Add the bold text
-      parts.push(
-        <strong key={`bold-${match.index}`} className="font-semibold text-white">
-          {match[1]}
-        </strong>
-      );
-      
-      currentIndex = match.index + match[0].length;
+  // Exa search settings applied to new runs; shown in both the mobile and desktop Settings tabs
+  const renderSearchSettings = () => {
+    const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder:text-white/40 focus:outline-none focus:border-orange-400 font-space-grotesk';
+    const labelClass = 'block text-white/80 text-xs font-space-grotesk mb-1';
+
+    return (
+      <div className="w-full pt-4 border-t border-white/10 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="text-white text-sm font-medium font-space-grotesk">Search Settings</div>
+          {searchSettings && (
+            <button className="text-xs text-orange-400 hover:text-orange-300 underline" onClick={resetSearchForm}>
+              Reset
+            </button>
+          )}
+        </div>
+        <div className="text-white/50 text-xs font-space-grotesk">
+          Applied to every web search of new research runs and their follow-up questions.
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Search providers (checked ones are searched together)</label>
+          <label className="flex items-center gap-2 text-white/80 text-xs font-space-grotesk cursor-pointer">
+            <input type="checkbox" className="accent-orange-500" checked={providerForm.exa} onChange={(e) => updateProviderForm('exa', e.target.checked)} />
+            Exa
+          </label>
+          <label className="flex items-center gap-2 text-white/80 text-xs font-space-grotesk cursor-pointer">
+            <input type="checkbox" className="accent-orange-500" checked={providerForm.searxng} onChange={(e) => updateProviderForm('searxng', e.target.checked)} />
+            SearxNG (self-hosted)
+          </label>
+          {providerForm.searxng && (
+            <input
+              type="url"
+              className={inputClass}
+              value={providerForm.searxng_url}
+              onChange={(e) => updateProviderForm('searxng_url', e.target.value)}
+              placeholder="https://searx.example.org"
+            />
+          )}
+          <label className="flex items-center gap-2 text-white/80 text-xs font-space-grotesk cursor-pointer">
+            <input type="checkbox" className="accent-orange-500" checked={providerForm.json} onChange={(e) => updateProviderForm('json', e.target.checked)} />
+            JSON search endpoint
+          </label>
+          {providerForm.json && (
+            <>
+              <input
+                type="url"
+                className={inputClass}
+                value={providerForm.json_url}
+                onChange={(e) => updateProviderForm('json_url', e.target.value)}
+                placeholder="https://search.internal/api?q={query}&n={limit}"
+              />
+              <input
+                type="password"
+                className={inputClass}
+                value={providerForm.json_api_key}
+                onChange={(e) => updateProviderForm('json_api_key', e.target.value)}
+                placeholder="Bearer token (optional)"
+              />
+            </>
+          )}
+          <label className="flex items-center gap-2 text-white/80 text-xs font-space-grotesk cursor-pointer">
+            <input type="checkbox" className="accent-orange-500" checked={providerForm.fixture} onChange={(e) => updateProviderForm('fixture', e.target.checked)} />
+            Fixture file (offline)
+          </label>
+          {providerForm.fixture && (
+            <input
+              type="text"
+              className={inputClass}
+              value={providerForm.fixture_url}
+              onChange={(e) => updateProviderForm('fixture_url', e.target.value)}
+              placeholder="/fixtures/search.json"
+            />
+          )}
+          {searchProvidersError && (
+            <div className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-red-300 text-xs font-space-grotesk">
+              {searchProvidersError}
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Search type</label>
+            <select className={inputClass} value={searchForm.type} onChange={(e) => updateSearchForm('type', e.target.value)}>
+              <option value="">Neural (default)</option>
+              <option value="keyword">Keyword</option>
+              <option value="auto">Auto</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Category</label>
+            <select className={inputClass} value={searchForm.category} onChange={(e) => updateSearchForm('category', e.target.value)}>
+              <option value="">Any</option>
+              {SEARCH_CATEGORIES.map(category => (
+                <option key={category} value={category}>{category.charAt(0).toUpperCase() + category.slice(1)}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Published after</label>
+            <input type="date" className={inputClass} value={searchForm.start_published_date} onChange={(e) => updateSearchForm('start_published_date', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Published before</label>
+            <input type="date" className={inputClass} value={searchForm.end_published_date} onChange={(e) => updateSearchForm('end_published_date', e.target.value)} />
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Only these domains</label>
+          <input
+            type="text"
+            className={inputClass}
+            value={searchForm.include_domains}
+            onChange={(e) => updateSearchForm('include_domains', e.target.value)}
+            placeholder="e.g. nature.com, nih.gov"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Never these domains</label>
+          <input
+            type="text"
+            className={inputClass}
+            value={searchForm.exclude_domains}
+            onChange={(e) => updateSearchForm('exclude_domains', e.target.value)}
+            placeholder="e.g. reddit.com"
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Results per search</label>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            className={inputClass}
+            value={searchForm.num_results}
+            onChange={(e) => updateSearchForm('num_results', e.target.value)}
+            placeholder="Automatic"
+          />
+        </div>
+
+        {searchSettingsError && (
+          <div className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-red-300 text-xs font-space-grotesk">
+            {searchSettingsError}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Model providers for new runs; shown in both the mobile and desktop Settings tabs
+  const renderModelSettings = () => {
+    const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder:text-white/40 focus:outline-none focus:border-orange-400 font-space-grotesk';
+
+    return (
+      <div className="w-full pt-4 border-t border-white/10 space-y-2">
+        <div className="text-white text-sm font-medium font-space-grotesk">Model Providers</div>
+        <div className="text-white/50 text-xs font-space-grotesk">
+          Checked providers' models are cycled together. Any OpenAI-compatible server works: vLLM, llama.cpp, Ollama or a hosted API.
+        </div>
+        <label className="flex items-center gap-2 text-white/80 text-xs font-space-grotesk cursor-pointer">
+          <input type="checkbox" className="accent-orange-500" checked={modelForm.cerebras} onChange={(e) => updateModelForm('cerebras', e.target.checked)} />
+          Cerebras
+        </label>
+        <label className="flex items-center gap-2 text-white/80 text-xs font-space-grotesk cursor-pointer">
+          <input type="checkbox" className="accent-orange-500" checked={modelForm.custom} onChange={(e) => updateModelForm('custom', e.target.checked)} />
+          OpenAI-compatible endpoint
+        </label>
+        {modelForm.custom && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                className={inputClass}
+                value={modelForm.name}
+                onChange={(e) => updateModelForm('name', e.target.value)}
+                placeholder="Name, e.g. local"
+              />
+              <input
+                type="text"
+                className={inputClass}
+                value={modelForm.context_window}
+                onChange={(e) => updateModelForm('context_window', e.target.value)}
+                placeholder="Context window (8192)"
+              />
+            </div>
+            <input
+              type="url"
+              className={inputClass}
+              value={modelForm.base_url}
+              onChange={(e) => updateModelForm('base_url', e.target.value)}
+              placeholder="http://localhost:11434/v1"
+            />
+            <input
+              type="text"
+              className={inputClass}
+              value={modelForm.models}
+              onChange={(e) => updateModelForm('models', e.target.value)}
+              placeholder="Models, comma separated, e.g. llama3.1:8b"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                className={inputClass}
+                value={modelForm.auth_header}
+                onChange={(e) => updateModelForm('auth_header', e.target.value)}
+                placeholder="Auth header (Authorization)"
+              />
+              <input
+                type="password"
+                className={inputClass}
+                value={modelForm.api_key}
+                onChange={(e) => updateModelForm('api_key', e.target.value)}
+                placeholder="API key (optional)"
+              />
+            </div>
+            <div className="text-white/50 text-xs font-space-grotesk">
+              Called straight from this browser, so the server must allow this site's origin (CORS), e.g. OLLAMA_ORIGINS for Ollama.
+            </div>
+          </>
+        )}
+        {modelProvidersError && (
+          <div className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-red-300 text-xs font-space-grotesk">
+            {modelProvidersError}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Document uploads for new runs; shown in both the mobile and desktop Settings tabs
+  const renderDocumentsPanel = () => (
+    <div className="w-full pt-4 border-t border-white/10 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-white text-sm font-medium font-space-grotesk">My Documents</div>
+        {documents.length > 0 && (
+          <button className="text-xs text-orange-400 hover:text-orange-300 underline" onClick={() => setDocuments([])}>
+            Remove all
+          </button>
+        )}
+      </div>
+      <div
+        className={`flex flex-col items-center gap-2 px-3 py-4 rounded-lg border border-dashed text-center cursor-pointer transition-colors ${
+          isDraggingDocuments ? 'border-orange-400 bg-orange-500/10' : 'border-white/20 bg-white/5 hover:bg-white/10'
+        }`}
+        onClick={() => documentInputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDraggingDocuments(true);
+        }}
+        onDragLeave={() => setIsDraggingDocuments(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDraggingDocuments(false);
+          handleDocumentFiles(Array.from(e.dataTransfer.files));
+        }}
+      >
+        <Upload className="w-4 h-4 text-white/60" />
+        <div className="text-white/70 text-xs font-space-grotesk">
+          {parsingDocuments ? 'Reading documents...' : 'Drop files here or click to choose'}
+        </div>
+        <div className="text-white/40 text-xs font-space-grotesk">PDF, DOCX, HTML, Markdown or text. Parsed in your browser</div>
+        <input
+          ref={documentInputRef}
+          type="file"
+          multiple
+          accept={DOCUMENT_EXTENSIONS.join(',')}
+          className="hidden"
+          onChange={(e) => {
+            handleDocumentFiles(Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {documentErrors.map(error => (
+        <div key={error} className="px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-lg text-red-300 text-xs font-space-grotesk">
+          {error}
+        </div>
+      ))}
+
+      {documents.map(document => (
+        <div key={document.url} className="flex items-center gap-2 px-3 py-2 bg-white/5 rounded-lg border border-white/10">
+          <FileText className="w-4 h-4 text-white/60 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="text-white text-xs font-medium font-space-grotesk truncate">{document.title}</div>
+            <div className="text-white/50 text-xs font-space-grotesk">
+              {documentFileName(document)} • {document.word_count.toLocaleString()} words
+            </div>
+          </div>
+          <button className="text-white/40 hover:text-red-400" title="Remove document" onClick={() => removeDocument(document.url)}>
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      {documents.length > 0 && (
+        <label className="flex items-center gap-2 text-white/80 text-xs font-space-grotesk cursor-pointer">
+          <input
+            type="checkbox"
+            checked={documentsOnly}
+            onChange={(e) => setDocumentsOnly(e.target.checked)}
+            className="accent-orange-500"
+          />
+          Use my documents only (no web search)
+        </label>
+      )}
+    </div>
+  );
+
+  // Saved reports list, shared by the mobile and desktop sidebars
+  const renderHistoryPanel = () => {
+    const visibleEntries = historyEntries.filter(entry => matchesHistorySearch(entry, historySearch));
+
+    return (
+      <div className="flex flex-col gap-3">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={historySearch}
+            onChange={(e) => setHistorySearch(e.target.value)}
+            placeholder="Search saved reports..."
+            className="flex-1 min-w-0 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder:text-white/40 focus:outline-none focus:border-orange-400"
+          />
+          <button
+            className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white/80 text-xs font-space-grotesk hover:bg-white/20 disabled:opacity-50"
+            title="Import a research bundle (.json)"
+            onClick={() => bundleInputRef.current?.click()}
+            disabled={isResearching}
+          >
+            Import
+          </button>
+          <input
+            ref={bundleInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImportBundle(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {historyNotice && (
+          <div className="px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white/70 text-xs font-space-grotesk flex justify-between gap-2">
+            <span>{historyNotice}</span>
+            <button className="text-white/40 hover:text-white" onClick={() => setHistoryNotice(null)}>
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+        {pendingCheckpoint && !isResearching && (
+          <div className="px-3 py-2 rounded-lg border border-orange-500/40 bg-orange-500/10">
+            <div className="text-orange-300 text-xs font-medium font-space-grotesk">Unfinished research</div>
+            <div className="text-white text-sm font-space-grotesk leading-tight mt-1">{pendingCheckpoint.request.query}</div>
+            <div className="text-white/60 text-xs font-light font-space-grotesk mt-1">
+              Stopped after {pendingCheckpoint.stage.replace('_', ' ')} • {new Date(pendingCheckpoint.updated_at).toLocaleString()}
+            </div>
+            <div className="flex gap-3 mt-2 text-xs">
+              <button className="text-[#F05A28] hover:text-[#FF6A38] underline" onClick={handleResume}>Resume</button>
+              <button className="text-white/50 hover:text-white underline" onClick={clearCheckpoint}>Discard</button>
+            </div>
+          </div>
+        )}
+        {visibleEntries.map(entry => (
+          <div key={entry.id} className="px-3 py-2 bg-gradient-to-b from-white/10 to-white/0 rounded-lg outline outline-1 outline-offset-[-1px] outline-white/10 hover:from-white/15 transition-all">
+            {renamingEntryId === entry.id ? (
+              <input
+                type="text"
+                autoFocus
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') renameHistoryEntry(entry.id);
+                  if (e.key === 'Escape') setRenamingEntryId(null);
+                }}
+                onBlur={() => renameHistoryEntry(entry.id)}
+                className="w-full px-2 py-1 bg-white/10 border border-orange-400 rounded text-white text-sm focus:outline-none"
+              />
+            ) : (
+              <div className="flex items-start gap-2">
+                <button
+                  className="flex-1 text-left text-white text-sm font-medium font-space-grotesk leading-tight hover:text-orange-300 transition-colors disabled:cursor-not-allowed"
+                  onClick={() => openHistoryEntry(entry)}
+                  disabled={isResearching}
+                >
+                  {entry.title}
+                </button>
+                <button
+                  className="text-white/40 hover:text-white"
+                  title="Rename"
+                  onClick={() => {
+                    setRenamingEntryId(entry.id);
+                    setRenameValue(entry.title);
+                  }}
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  className="text-white/40 hover:text-red-400"
+                  title="Delete"
+                  onClick={() => deleteHistoryEntry(entry)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+            <div className="text-white/60 text-xs font-light font-space-grotesk mt-1">
+              {new Date(entry.timestamp).toLocaleString()} • {entry.total_sources} sources
+              {entry.status !== 'completed' && ` • ${entry.status.replace('_', ' ')}`}
+            </div>
+          </div>
+        ))}
+        {visibleEntries.length === 0 && (
+          <div className="p-3 bg-white/5 rounded-lg border border-white/10 text-white/60 text-sm font-light font-space-grotesk">
+            {historyEntries.length === 0 ? 'Finished research will be saved here' : 'No saved reports match your search'}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // Jump to a citation's entry in the reference list, or open the source if the list isn't rendered
+  const handleCitationClick = (number: number) => {
+    const reference = document.getElementById(`source-${number}`);
+    if (reference) {
+      reference.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      reference.classList.add('bg-orange-500/20');
+      setTimeout(() => reference.classList.remove('bg-orange-500/20'), 1500);
+      return;
     }
-    
-    // Add remaining text
-    if (currentIndex < text.length) {
-      parts.push(
-        <span key={`text-${currentIndex}`}>
-          {text.slice(currentIndex)}
-        </span>
-      );
+    const source = researchResult?.all_sources[number - 1];
+    if (source) {
+      openSource(source);
     }
-    
-    // Handle line breaks within the text
-    return parts.map((part, index) => {
-      if (typeof part.props?.children === 'string') {
-        return (
-          <span key={part.key || index}>
-            {part.props.children.split('\n').map((line: string, lineIndex: number) => (
-              <span key={lineIndex}>
-                {line}
-                {lineIndex < part.props.children.split('\n').length - 1 && <br />}
-              </span>
-            ))}
-          </span>
-        );
-      }
-      return part;
-    });
   };
 
   return (
@@ -843,7 +1748,7 @@ const App = () => {
               
               {/* Mobile tab navigation */}
               <div className="p-4 border-b border-white/10">
-                <div className="grid grid-cols-3 gap-2">
+                <div className="grid grid-cols-4 gap-2">
                   <button
                     onClick={() => setActiveTab('activity')}
                     className={`px-3 py-2 rounded-lg text-xs font-medium font-space-grotesk transition-all duration-200 active:scale-95 ${
@@ -866,6 +1771,17 @@ const App = () => {
                     Sources
                   </button>
                   
+                  <button
+                    onClick={() => setActiveTab('history')}
+                    className={`px-3 py-2 rounded-lg text-xs font-medium font-space-grotesk transition-all duration-200 active:scale-95 ${
+                      activeTab === 'history' 
+                        ? 'bg-gradient-to-r from-[#F05A28]/25 to-[#E04A18]/15 text-orange-300 border border-orange-500/40' 
+                        : 'text-white/70 hover:text-white hover:bg-white/10 border border-transparent'
+                    }`}
+                  >
+                    History
+                  </button>
+                  
                   <button
                     onClick={() => setActiveTab('settings')}
                     className={`px-3 py-2 rounded-lg text-xs font-medium font-space-grotesk transition-all duration-200 active:scale-95 ${
@@ -926,7 +1842,7 @@ const App = () => {
                     {(realtimeSources.length > 0 || (researchResult && researchResult.all_sources && researchResult.all_sources.length > 0)) ? (
                       (realtimeSources.length > 0 ? realtimeSources : researchResult!.all_sources).map((source: ResearchSource, index) => (
                         <div key={index} className="p-3 bg-white/5 rounded-lg border border-white/10 hover:bg-white/10 transition-all cursor-pointer"
-                             onClick={() => window.open(source.url, '_blank')}>
+                             onClick={() => openSource(source)}>
                           <div className="text-white text-sm font-medium font-space-grotesk mb-1 hover:text-orange-300 transition-colors">
                             {source.title || 'Untitled Source'}
                           </div>
@@ -945,8 +1861,15 @@ const App = () => {
                   </div>
                 )}
                 
+                {activeTab === 'history' && renderHistoryPanel()}
+                
                 {activeTab === 'settings' && (
                   <div className="space-y-4">
+                    {serverKeysAvailable && (
+                      <div className="px-3 py-2 bg-green-500/10 border border-green-500/30 rounded-lg text-green-300 text-xs font-space-grotesk">
+                        API keys are provided by this server. You can leave these fields empty.
+                      </div>
+                    )}
                     <div>
                       <label className="block text-white text-sm font-medium font-space-grotesk mb-2">Exa API Key</label>
                       <div className="flex">
@@ -996,6 +1919,10 @@ const App = () => {
                         Get API Key →
                       </button>
                     </div>
+
+                    {renderModelSettings()}
+                    {renderDocumentsPanel()}
+                    {renderSearchSettings()}
                   </div>
                 )}
               </div>
@@ -1089,11 +2016,95 @@ const App = () => {
                    {researchResult && researchResult.final_synthesis && (
                      <div className="flex justify-start">
                        <div className="bg-white/10 backdrop-blur-md text-white px-4 sm:px-6 py-3 sm:py-4 rounded-2xl max-w-[95%] sm:max-w-[90%] border border-white/20 shadow-lg">
+                         {/* Export menu */}
+                         <div className="flex justify-end mb-2">
+                           <div className="relative">
+                             <button
+                               className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-xs sm:text-sm font-space-grotesk transition-colors disabled:opacity-60"
+                               onClick={() => setShowExportMenu(!showExportMenu)}
+                               disabled={exportingFormat !== null}
+                             >
+                               <Download className="w-4 h-4" />
+                               {exportingFormat ? `Exporting ${exportingFormat.toUpperCase()}...` : 'Export'}
+                               <ChevronDown className="w-3 h-3" />
+                             </button>
+                             {showExportMenu && (
+                               <div className="absolute right-0 mt-1 w-44 py-1 rounded-lg bg-gray-900/95 border border-white/20 shadow-xl z-10">
+                                 {([
+                                   ['markdown', 'Markdown (.md)'],
+                                   ['html', 'HTML page (.html)'],
+                                   ['pdf', 'PDF (.pdf)'],
+                                   ['docx', 'Word (.docx)'],
+                                   ['json', 'Research bundle (.json)']
+                                 ] as Array<[ExportFormat, string]>).map(([format, label]) => (
+                                   <button
+                                     key={format}
+                                     className="block w-full text-left px-3 py-2 text-sm font-space-grotesk hover:bg-white/10"
+                                     onClick={() => handleExport(format)}
+                                   >
+                                     {label}
+                                   </button>
+                                 ))}
+                               </div>
+                             )}
+                           </div>
+                         </div>
+                         {researchResult.status !== 'completed' && (
+                           <div className="mb-3 sm:mb-4 p-3 rounded-lg border border-yellow-400/40 bg-yellow-500/10 text-xs sm:text-sm font-space-grotesk">
+                             <div className="font-semibold text-yellow-300">
+                               {researchResult.status === 'cancelled'
+                                 ? '⏹ Research stopped early'
+                                 : researchResult.status === 'sources_only'
+                                 ? '⚠ Report could not be written - showing collected sources'
+                                 : '⚠ Partial results'}
+                             </div>
+                             {researchResult.failures && researchResult.failures.length > 0 && (
+                               <ul className="mt-2 space-y-1 text-white/70">
+                                 {researchResult.failures.map((failure, index) => (
+                                   <li key={index}>
+                                     <span className="font-mono text-yellow-200/80">{failure.stage}</span>
+                                     {failure.agent && ` · ${failure.agent}`}
+                                     {failure.layer && ` · layer ${failure.layer}`}
+                                     {`: ${failure.message}`}
+                                   </li>
+                                 ))}
+                               </ul>
+                             )}
+                             <div className="mt-2 flex gap-4">
+                               {pendingCheckpoint && pendingCheckpoint.request.query === currentSearch && (
+                                 <button
+                                   className="text-[#F05A28] hover:text-[#FF6A38] underline"
+                                   onClick={handleResume}
+                                 >
+                                   Resume from last checkpoint
+                                 </button>
+                               )}
+                               {currentSearch && (
+                                 <button
+                                   className="text-[#F05A28] hover:text-[#FF6A38] underline"
+                                   onClick={() => handleSuggestedSearch(currentSearch)}
+                                 >
+                                   Run again
+                                 </button>
+                               )}
+                             </div>
+                           </div>
+                         )}
                          <div className="text-sm sm:text-base font-light font-space-grotesk leading-relaxed">
-                           {formatMarkdownText(researchResult.final_synthesis)}
+                           <ReportMarkdown
+                             markdown={researchResult.final_synthesis}
+                             sources={researchResult.all_sources}
+                             claimVerifications={researchResult.source_utilization?.claimVerifications}
+                             onCitationClick={handleCitationClick}
+                           />
                          </div>
                          <div className="mt-3 sm:mt-4 pt-3 border-t border-white/10 text-xs sm:text-sm text-white/60 font-light font-space-grotesk">
                            Based on {researchResult.total_sources} sources • Research time: {researchResult.research_time.toFixed(1)}s
+                           {researchResult.model_usage && Object.keys(researchResult.model_usage).length > 0 && (
+                             <span title={Object.entries(researchResult.model_usage).map(([model, usage]) => `${model}: ${usage.calls} calls, ${usage.prompt_tokens + usage.completion_tokens} tokens`).join('\n')}>
+                               {' '}• {Object.values(researchResult.model_usage).reduce((sum, usage) => sum + usage.calls, 0)} model calls
+                             </span>
+                           )}
                            {researchResult.source_utilization && (
                              <div className="mt-3 sm:mt-4 p-3 sm:p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
                                <h4 className="font-semibold mb-2 text-gray-900 dark:text-gray-100 text-sm sm:text-base">Source Utilization Analysis</h4>
@@ -1117,30 +2128,61 @@ const App = () => {
                                  <div>
                                    <span className="text-gray-600 dark:text-gray-400">Domains Found:</span>
                                    <div className="font-mono text-xs sm:text-sm">
-                                     {researchResult.source_utilization.domainsFound.length}
+                                     {researchResult.source_utilization.domainsFound.length}/{researchResult.source_utilization.domainsFound.length + researchResult.source_utilization.missingDomains.length}
                                    </div>
                                  </div>
                                  <div>
                                    <span className="text-gray-600 dark:text-gray-400">Citation Check:</span>
                                    <div className={`font-mono text-xs sm:text-sm ${
-                                     researchResult.source_utilization.foundCitations ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                                     researchResult.source_utilization.foundCitations ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
                                    }`}>
-                                     {researchResult.source_utilization.foundCitations ? '❌ Found' : '✅ Clean'}
+                                     {researchResult.source_utilization.foundCitations ? '✅ Cited' : '❌ Missing'}
                                    </div>
                                  </div>
                                </div>
                               
-                               {/* Detailed verification button */}
+                               {/* Detailed verification toggle */}
                                <button
-                                 onClick={() => {
-                                   console.log('📋 DETAILED SOURCE VERIFICATION:');
-                                   console.log('Open browser console to see detailed verification report');
-                                   console.log('This report shows exactly which sources were used and how');
-                                 }}
+                                 onClick={() => setShowVerificationDetails(!showVerificationDetails)}
                                  className="mt-3 px-3 py-1 text-xs bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 rounded hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
                                >
-                                 📋 View Detailed Verification (Console)
+                                 📋 {showVerificationDetails ? 'Hide' : 'View'} Detailed Verification
                                </button>
+                               {showVerificationDetails && (
+                                 <div className="mt-3 space-y-3 text-xs text-gray-700 dark:text-gray-300">
+                                   {researchResult.source_utilization.verificationReport && (
+                                     <pre className="whitespace-pre-wrap font-['Space_Grotesk']">
+                                       {researchResult.source_utilization.verificationReport}
+                                     </pre>
+                                   )}
+                                   {researchResult.source_utilization.missingDomains.length > 0 && (
+                                     <div>
+                                       <span className="font-semibold">Unused domains:</span> {researchResult.source_utilization.missingDomains.join(', ')}
+                                     </div>
+                                   )}
+                                   {researchResult.source_utilization.entitiesFound.length > 0 && (
+                                     <div>
+                                       <span className="font-semibold">Entities covered:</span> {researchResult.source_utilization.entitiesFound.slice(0, 20).join(', ')}
+                                     </div>
+                                   )}
+                                   {researchResult.source_utilization.missingEntities.length > 0 && (
+                                     <div>
+                                       <span className="font-semibold">Entities not covered:</span> {researchResult.source_utilization.missingEntities.join(', ')}
+                                     </div>
+                                   )}
+                                   {researchResult.source_utilization.sourceDetails && (
+                                     <div className="space-y-1">
+                                       <div className="font-semibold">Per-source usage:</div>
+                                       {researchResult.source_utilization.sourceDetails.map((detail, index) => (
+                                         <div key={index} className={detail.used ? '' : 'opacity-60'}>
+                                           {detail.used ? '✅' : '⬜'} [{index + 1}] {detail.title} ({detail.domain}) • confidence {Math.round(detail.confidence * 100)}%
+                                           {detail.matchedTerms.length > 0 && ` • ${detail.matchedTerms.slice(0, 6).join(', ')}`}
+                                         </div>
+                                       ))}
+                                     </div>
+                                   )}
+                                 </div>
+                               )}
                              </div>
                            )}
                          </div>
@@ -1148,6 +2190,8 @@ const App = () => {
                      </div>
                    )}
 
+                   {researchResult && researchResult.final_synthesis && renderFollowUpChat()}
+
                    {/* Error state */}
                    {researchError && (
                      <div className="flex justify-start">
@@ -1189,6 +2233,16 @@ const App = () => {
                    >
                      Sources
                    </button>
+                   <button
+                     onClick={() => setActiveTab('history')}
+                     className={`px-3 lg:px-4 py-2 rounded-md text-sm font-medium font-space-grotesk transition-all ${
+                       activeTab === 'history' 
+                         ? 'bg-gradient-to-r from-[#F05A28]/20 to-[#E04A18]/10 text-orange-300 border border-orange-500/30' 
+                         : 'text-white/70 hover:text-white hover:bg-white/5'
+                     }`}
+                   >
+                     History
+                   </button>
                    <button
                      onClick={() => setActiveTab('settings')}
                      className={`px-3 lg:px-4 py-2 rounded-md text-sm font-medium font-space-grotesk transition-all ${
@@ -1311,7 +2365,7 @@ const App = () => {
                      {(realtimeSources.length > 0 || (researchResult && researchResult.all_sources && researchResult.all_sources.length > 0)) ? (
                        (realtimeSources.length > 0 ? realtimeSources : researchResult!.all_sources).map((source: ResearchSource, index) => (
                          <div key={index} className="self-stretch px-3 py-2 relative bg-gradient-to-b from-white/10 to-white/0 rounded-lg shadow-[inset_0px_0px_8px_1px_rgba(255,255,255,0.25)] outline outline-1 outline-offset-[-1px] outline-white/10 inline-flex justify-start items-start gap-2 overflow-hidden hover:from-white/15 transition-all cursor-pointer"
-                              onClick={() => window.open(source.url, '_blank')}>
+                              onClick={() => openSource(source)}>
                            <div className="flex-1 inline-flex flex-col justify-start items-start gap-0.5">
                              <div className="self-stretch justify-start text-white text-sm font-medium font-['Space_Grotesk'] leading-tight hover:text-orange-300 transition-colors">
                                {source.title || 'Untitled Source'}
@@ -1346,11 +2400,18 @@ const App = () => {
                    </div>
                  )}
 
+                 {activeTab === 'history' && renderHistoryPanel()}
+
                  {activeTab === 'settings' && (
                    <div className="self-stretch inline-flex flex-col justify-start items-start gap-6">
                      {/* API Keys Section */}
                      <div className="self-stretch flex flex-col justify-start items-start gap-4">
                        <div className="w-full justify-start text-white text-base font-medium font-['Space_Grotesk'] leading-tight">API Keys</div>
+                       {serverKeysAvailable && (
+                         <div className="self-stretch px-3.5 py-3 bg-gradient-to-b from-green-500/20 to-green-600/10 rounded-xl outline outline-1 outline-offset-[-1px] outline-green-500/30 text-green-300 text-sm font-light font-['Space_Grotesk'] leading-tight">
+                           API keys are provided by this server. You can leave these fields empty.
+                         </div>
+                       )}
                        
                        {/* API Keys Status */}
                        {/* <div className={`self-stretch px-3.5 py-3 rounded-xl shadow-[inset_0px_0px_10px_2px_rgba(255,255,255,0.32)] outline outline-1 outline-offset-[-1px] outline-white/10 inline-flex justify-between items-center overflow-hidden ${
@@ -1420,6 +2481,10 @@ const App = () => {
                            </button>
                          </div>
                        </div>
+
+                       {renderModelSettings()}
+                       {renderDocumentsPanel()}
+                       {renderSearchSettings()}
                      </div>
 
                      {/* Model Usage Info */}
@@ -1456,19 +2521,22 @@ const App = () => {
              <button 
                className={`px-4 py-3 rounded-lg font-medium transition-all flex items-center gap-2 ${
                  isResearching 
-                   ? 'bg-gray-600 cursor-not-allowed text-white' 
+                   ? 'bg-gray-600 hover:bg-red-600 text-white group' 
                    : 'bg-gradient-to-r from-[#F05A28] to-[#E04A18] hover:from-[#FF6A38] hover:to-[#F05A28] text-white'
                }`}
-               onClick={handleSearch}
-               disabled={isResearching}
+               onClick={isResearching ? handleStopResearch : handleSearch}
+               title={isResearching ? 'Stop research and keep the sources found so far' : undefined}
              >
                {isResearching ? (
-                 <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                 <>
+                   <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin group-hover:hidden" />
+                   <Square className="w-5 h-5 hidden group-hover:block" />
+                 </>
                ) : (
                  <ArrowRight className="w-5 h-5" />
                )}
                <span className="hidden sm:inline">
-                 {isResearching ? 'Researching...' : ''}
+                 {isResearching ? 'Stop' : ''}
                </span>
              </button>
            </div>
@@ -1547,7 +2615,7 @@ const App = () => {
               <div className="mb-4">
                 {researchError?.includes('credits exhausted') ? (
                   <div className="text-6xl mb-2">💳</div>
-                ) : researchError?.includes('Cerebras API rate limit exceeded') ? (
+                ) : researchError?.includes('Model API rate limit exceeded') ? (
                   <div className="text-6xl mb-2">⚡</div>
                 ) : researchError?.includes('rate limit') ? (
                   <div className="text-6xl mb-2">🚦</div>
@@ -1559,7 +2627,7 @@ const App = () => {
                 <div className="text-white text-xl font-bold font-space-grotesk leading-tight">
                   {researchError?.includes('credits exhausted') 
                     ? 'API Credits Exhausted'
-                    : researchError?.includes('Cerebras API rate limit exceeded')
+                    : researchError?.includes('Model API rate limit exceeded')
                     ? 'AI Models Temporarily Busy'
                     : researchError?.includes('rate limit')
                     ? 'Rate Limit Reached'
@@ -1570,7 +2638,7 @@ const App = () => {
               <div className="text-white/80 text-sm font-light font-space-grotesk leading-normal mb-6">
                 {researchError?.includes('credits exhausted') 
                   ? 'Your API credits have been used up. Please check your API provider dashboards and add more credits to continue.'
-                  : researchError?.includes('Cerebras API rate limit exceeded')
+                  : researchError?.includes('Model API rate limit exceeded')
                   ? 'The AI models are currently experiencing high demand. Please wait a moment and try again.'
                   : researchError?.includes('rate limit')
                   ? 'You\'ve hit the rate limit for API calls. Please wait a moment before trying again.'
@@ -1589,6 +2657,14 @@ const App = () => {
                 >
                   Close
                 </button>
+                {pendingCheckpoint && !researchError?.includes('credits exhausted') && (
+                  <button 
+                    className="px-4 sm:px-6 py-3 bg-gradient-to-b from-[#F05A28] to-[#E04A18] rounded-lg shadow-[inset_0px_0px_2px_1px_rgba(255,255,255,0.25)] text-white text-sm font-medium font-space-grotesk leading-tight hover:from-[#FF6A38] hover:to-[#F05A28] transition-all"
+                    onClick={handleResume}
+                  >
+                    Resume
+                  </button>
+                )}
                 {!researchError?.includes('credits exhausted') && (
                   <button 
                     className="px-4 sm:px-6 py-3 bg-gradient-to-b from-[#F05A28] to-[#E04A18] rounded-lg shadow-[inset_0px_0px_2px_1px_rgba(255,255,255,0.25)] text-white text-sm font-medium font-space-grotesk leading-tight hover:from-[#FF6A38] hover:to-[#F05A28] transition-all"
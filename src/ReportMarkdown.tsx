@@ -0,0 +1,298 @@
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeSlug from 'rehype-slug';
+import type { Element, ElementContent, Root, Text } from 'hast';
+import { ClaimVerification, ResearchSource } from './api';
+
+interface ReportMarkdownProps {
+  markdown: string;
+  sources: ResearchSource[]; // all_sources; citation [n] points at sources[n - 1]
+  claimVerifications?: ClaimVerification[];
+  onCitationClick: (number: number) => void;
+  anchors?: boolean; // Heading ids, reference anchors and the table of contents; off for text shown beside the report
+}
+
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+const REFERENCE_LABEL = /^\[(\d+)\] /;
+
+// Claims never span these; each one starts its own run of text
+const BLOCK_TAGS = new Set(['p', 'li', 'td', 'th', 'blockquote', 'ul', 'ol', 'pre', 'table', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+// Bracketed numbers inside these are literal text, not citations
+const LITERAL_TAGS = new Set(['a', 'code', 'pre']);
+
+interface TextSegment {
+  node: Text;
+  parent: Element;
+  start: number; // Offset of the node within the block's text
+  end: number;
+}
+
+// Text nodes of one block with their offsets, skipping nested blocks
+function textSegments(block: Element): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let offset = 0;
+  const walk = (parent: Element) => {
+    for (const child of parent.children) {
+      if (child.type === 'text') {
+        segments.push({ node: child, parent, start: offset, end: offset + child.value.length });
+        offset += child.value.length;
+      } else if (child.type === 'element' && !BLOCK_TAGS.has(child.tagName)) {
+        walk(child);
+      }
+    }
+  };
+  walk(block);
+  return segments;
+}
+
+// Wrap a range of a block's text, one wrapper per text node it touches
+function wrapTextRange(block: Element, start: number, end: number, wrap: (text: Text) => Element) {
+  for (const segment of textSegments(block)) {
+    if (segment.end <= start || segment.start >= end) continue;
+    const value = segment.node.value;
+    const from = Math.max(start, segment.start) - segment.start;
+    const to = Math.min(end, segment.end) - segment.start;
+    const replacement: ElementContent[] = [];
+    if (from > 0) replacement.push({ type: 'text', value: value.slice(0, from) });
+    replacement.push(wrap({ type: 'text', value: value.slice(from, to) }));
+    if (to < value.length) replacement.push({ type: 'text', value: value.slice(to) });
+    segment.parent.children.splice(segment.parent.children.indexOf(segment.node), 1, ...replacement);
+  }
+}
+
+function elements(tree: Root | Element, tagNames: string[]): Element[] {
+  const found: Element[] = [];
+  const walk = (parent: Root | Element) => {
+    for (const child of parent.children) {
+      if (child.type !== 'element') continue;
+      if (tagNames.includes(child.tagName)) found.push(child);
+      walk(child);
+    }
+  };
+  walk(tree);
+  return found;
+}
+
+function textContent(element: Element): string {
+  return element.children
+    .map(child => child.type === 'text' ? child.value : child.type === 'element' ? textContent(child) : '')
+    .join('');
+}
+
+// How a markdown sentence reads once rendered: link labels kept, emphasis and code markers dropped
+function renderedText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '$1')
+    .replace(/\*\*|__|[*`]/g, '');
+}
+
+// Give every entry of the generated reference list its own paragraph so each one can be an anchor
+function separateReferences(markdown: string): string {
+  return markdown.replace(/^(\[\d+\] .*)\n(?=\[\d+\] )/gm, '$1\n\n');
+}
+
+// Report-specific structure on top of the sanitized tree: reference anchors, flagged claims,
+// citation markers and the table of contents. Runs after rehype-sanitize, so the ids and
+// elements it adds are trusted.
+function rehypeReport({ claimVerifications, anchors }: { claimVerifications: ClaimVerification[]; anchors: boolean }) {
+  return (tree: Root) => {
+    // Reference list entries become jump targets for citations
+    const references = new Set<Element>();
+    for (const paragraph of anchors ? elements(tree, ['p']) : []) {
+      const first = paragraph.children[0];
+      const label = first?.type === 'text' ? first.value.match(REFERENCE_LABEL) : null;
+      if (!label) continue;
+      references.add(paragraph);
+      paragraph.properties = { ...paragraph.properties, id: `source-${label[1]}`, dataReference: label[1] };
+      wrapTextRange(paragraph, 0, label[0].length - 1, text => ({
+        type: 'element', tagName: 'span', properties: { className: ['text-orange-300/80'] }, children: [text]
+      }));
+    }
+
+    // Mark sentences the verification pass could not back up with the collected sources
+    const flagged = claimVerifications.filter(v => v.verdict !== 'supported');
+    if (flagged.length > 0) {
+      for (const block of elements(tree, ['p', 'li', 'td', 'th'])) {
+        if (references.has(block)) continue;
+        const text = textSegments(block).map(segment => segment.node.value).join('');
+        const marked: Array<[number, number]> = [];
+        for (const verification of flagged) {
+          const claim = renderedText(verification.claim);
+          const start = text.indexOf(claim);
+          if (start === -1) continue;
+          const end = start + claim.length;
+          if (marked.some(([from, to]) => start < to && end > from)) continue;
+          marked.push([start, end]);
+          wrapTextRange(block, start, end, text => ({
+            type: 'element',
+            tagName: 'mark',
+            properties: {
+              dataVerdict: verification.verdict,
+              title: `${verification.verdict === 'contradicted' ? 'Contradicted by sources' : 'Not supported by sources'}${verification.explanation ? `: ${verification.explanation}` : ''}`
+            },
+            children: [text]
+          }));
+        }
+      }
+    }
+
+    // [n] and [n, m] markers become citation elements rendered as buttons
+    const linkCitations = (parent: Element) => {
+      parent.children = parent.children.flatMap(child => {
+        if (child.type === 'element') {
+          if (!LITERAL_TAGS.has(child.tagName) && !references.has(child)) linkCitations(child);
+          return [child];
+        }
+        if (child.type !== 'text' || child.value.search(CITATION_PATTERN) === -1) return [child];
+
+        const parts: ElementContent[] = [];
+        let lastIndex = 0;
+        for (const match of child.value.matchAll(CITATION_PATTERN)) {
+          if (match.index! > lastIndex) parts.push({ type: 'text', value: child.value.slice(lastIndex, match.index) });
+          parts.push({
+            type: 'element',
+            tagName: 'sup',
+            properties: { dataCitation: match[1].split(',').map(n => n.trim()).join(',') },
+            children: [{ type: 'text', value: match[0] }]
+          });
+          lastIndex = match.index! + match[0].length;
+        }
+        if (lastIndex < child.value.length) parts.push({ type: 'text', value: child.value.slice(lastIndex) });
+        return parts;
+      });
+    };
+    for (const child of tree.children) {
+      if (child.type === 'element' && !LITERAL_TAGS.has(child.tagName) && !references.has(child)) linkCitations(child);
+    }
+
+    // Table of contents from the section headings, placed after the report title
+    const headings = anchors ? elements(tree, ['h2', 'h3']).filter(heading => heading.properties.id) : [];
+    if (headings.length < 2) return;
+    const toc: Element = {
+      type: 'element',
+      tagName: 'nav',
+      properties: { ariaLabel: 'Table of contents', className: ['mb-6 rounded-lg border border-white/10 bg-white/5 px-4 py-3'] },
+      children: [
+        {
+          type: 'element',
+          tagName: 'div',
+          properties: { className: ['mb-2 text-xs uppercase tracking-wide text-white/50'] },
+          children: [{ type: 'text', value: 'Contents' }]
+        },
+        {
+          type: 'element',
+          tagName: 'ol',
+          properties: { className: ['space-y-1 text-sm'] },
+          children: headings.map(heading => ({
+            type: 'element',
+            tagName: 'li',
+            properties: { className: [heading.tagName === 'h3' ? 'pl-4' : 'pl-0'] },
+            children: [{
+              type: 'element',
+              tagName: 'a',
+              properties: { href: `#${heading.properties.id}`, className: ['text-white/70 hover:text-orange-300'] },
+              children: [{ type: 'text', value: textContent(heading) }]
+            }]
+          }))
+        }
+      ]
+    };
+    const titleIndex = tree.children.findIndex(child => child.type === 'element' && child.tagName === 'h1');
+    tree.children.splice(titleIndex + 1, 0, toc);
+  };
+}
+
+const ReportMarkdown = ({ markdown, sources, claimVerifications = [], onCitationClick, anchors = true }: ReportMarkdownProps) => {
+  const components: Components = {
+    h1: ({ node, ...props }) => (
+      <h1 {...props} className="text-2xl font-bold font-['Space_Grotesk'] leading-tight mb-6 mt-8 text-white" />
+    ),
+    h2: ({ id, children }) => (
+      <h2 id={id} className="group text-xl font-semibold font-['Space_Grotesk'] leading-tight mb-4 mt-6 text-white scroll-mt-24">
+        {children}
+        {id && <a href={`#${id}`} aria-label="Link to this section" className="ml-2 text-white/30 opacity-0 group-hover:opacity-100 hover:text-orange-300">#</a>}
+      </h2>
+    ),
+    h3: ({ id, children }) => (
+      <h3 id={id} className="group text-lg font-medium font-['Space_Grotesk'] leading-tight mb-3 mt-5 text-white scroll-mt-24">
+        {children}
+        {id && <a href={`#${id}`} aria-label="Link to this section" className="ml-2 text-white/30 opacity-0 group-hover:opacity-100 hover:text-orange-300">#</a>}
+      </h3>
+    ),
+    h4: ({ node, ...props }) => (
+      <h4 {...props} className="text-base font-medium font-['Space_Grotesk'] leading-tight mb-2 mt-4 text-white scroll-mt-24" />
+    ),
+    p: ({ node, ...props }) => node?.properties.dataReference
+      ? <p {...props} className="mb-2 text-xs font-light font-['Space_Grotesk'] leading-relaxed text-white/80 scroll-mt-24 transition-colors" />
+      : <p {...props} className="mb-4 text-sm font-light font-['Space_Grotesk'] leading-relaxed" />,
+    a: ({ node, href, ...props }) => href?.startsWith('#')
+      ? <a {...props} href={href} />
+      : <a {...props} href={href} target="_blank" rel="noopener noreferrer" className="text-orange-300 hover:text-orange-200 underline" />,
+    strong: ({ node, ...props }) => <strong {...props} className="font-semibold text-white" />,
+    ul: ({ node, ...props }) => <ul {...props} className="mb-4 ml-5 list-disc space-y-1 text-sm font-light font-['Space_Grotesk'] leading-relaxed" />,
+    // The table of contents brings its own list styling
+    ol: ({ node, ...props }) => <ol {...props} className={props.className || "mb-4 ml-5 list-decimal space-y-1 text-sm font-light font-['Space_Grotesk'] leading-relaxed"} />,
+    blockquote: ({ node, ...props }) => <blockquote {...props} className="mb-4 border-l-2 border-orange-500/60 pl-4 text-white/70 italic" />,
+    code: ({ node, ...props }) => <code {...props} className="rounded bg-white/10 px-1 py-0.5 font-mono text-[0.85em]" />,
+    pre: ({ node, ...props }) => <pre {...props} className="mb-4 overflow-x-auto rounded-lg bg-white/5 p-3 text-xs [&>code]:bg-transparent [&>code]:p-0" />,
+    hr: () => <hr className="my-6 border-white/10" />,
+    table: ({ node, ...props }) => (
+      <div className="mb-4 overflow-x-auto">
+        <table {...props} className="w-full border-collapse text-sm font-light font-['Space_Grotesk']" />
+      </div>
+    ),
+    th: ({ node, ...props }) => <th {...props} className="border border-white/15 bg-white/5 px-3 py-2 text-left font-semibold text-white" />,
+    td: ({ node, ...props }) => <td {...props} className="border border-white/15 px-3 py-2 align-top" />,
+    mark: ({ node, ...props }) => (
+      <mark
+        {...props}
+        className={`text-inherit rounded px-0.5 underline decoration-dotted ${
+          node?.properties.dataVerdict === 'contradicted' ? 'bg-red-500/25 decoration-red-400' : 'bg-yellow-500/20 decoration-yellow-400'
+        }`}
+      />
+    ),
+    sup: ({ node, ...props }) => {
+      const citation = node?.properties.dataCitation;
+      if (typeof citation !== 'string') return <sup {...props} />;
+
+      // Citation markers are only clickable when they resolve to a collected source
+      return (
+        <sup className="mx-0.5">
+          {citation.split(',').map(n => {
+            const number = parseInt(n, 10);
+            const source = sources[number - 1];
+            if (!source) {
+              return <span key={number} className="text-orange-300/80">[{number}]</span>;
+            }
+            return (
+              <button
+                key={number}
+                type="button"
+                title={`${source.title} (${source.domain})`}
+                onClick={() => onCitationClick(number)}
+                className="text-orange-300 hover:text-orange-200 hover:underline"
+              >
+                [{number}]
+              </button>
+            );
+          })}
+        </sup>
+      );
+    }
+  };
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={anchors
+        ? [rehypeSanitize, rehypeSlug, [rehypeReport, { claimVerifications, anchors }]]
+        : [rehypeSanitize, [rehypeReport, { claimVerifications, anchors }]]}
+      components={components}
+    >
+      {anchors ? separateReferences(markdown) : markdown}
+    </ReactMarkdown>
+  );
+};
+
+export default ReportMarkdown;
@@ -4,12 +4,114 @@
  * Follows Anthropic's multi-agent research framework
  */
 
+import { createEnvironment, ResearchClock, ResearchEnvironment, systemClock } from './environment';
+import { completionTokenBudget, contextWindowFor, countTokens, fitPrompt, packDocuments, packText, promptTokenBudget } from './context';
+import { isLocalDocument, searchDocuments } from './documents';
+import { CEREBRAS_PROVIDER, ChatMessage, LLMProvider, LLMProviderConfig, OpenAICompatibleProvider } from './llm';
+import { createSearchProvider, filterResults, PageContents, SearchProvider, SearchProviderConfig, SearchResult } from './search';
+
 const API_BASE_URL = '/api'; // Keep for compatibility but won't be used
 
 export interface ResearchRequest {
   query: string;
   max_layers?: number;
   sources_per_layer?: number;
+  agent_count?: number; // Fixed number of specialist agents (1-6); the planner picks 2-6 when unset
+  search?: SearchSettings; // Exa filters applied to every search of the run, follow-ups included
+  documents?: ResearchSource[]; // Uploaded documents (see documents.ts), searched alongside the web
+  documents_only?: boolean; // Research the uploaded documents alone, without web searches
+}
+
+export type SearchType = 'neural' | 'keyword' | 'auto';
+
+export const SEARCH_CATEGORIES = [
+  'company', 'research paper', 'news', 'pdf', 'github', 'tweet', 'personal site', 'linkedin profile', 'financial report'
+] as const;
+
+export type SearchCategory = typeof SEARCH_CATEGORIES[number];
+
+// Exa search parameters for a run; unset fields keep Exa's defaults
+export interface SearchSettings {
+  type?: SearchType; // Defaults to neural
+  category?: SearchCategory;
+  include_domains?: string[]; // Only these publishers, e.g. ["nature.com", "nih.gov"]
+  exclude_domains?: string[];
+  start_published_date?: string; // YYYY-MM-DD, inclusive
+  end_published_date?: string; // YYYY-MM-DD, inclusive
+  num_results?: number; // Results per agent search (1-100); derived from the source budget when unset
+}
+
+// "https://www.nature.com/articles" -> "nature.com"; lists may be arrays or comma/space separated text
+function parseDomainList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[\s,;]+/) : null;
+  if (!entries || entries.some(entry => typeof entry !== 'string')) {
+    throw new Error(`${field} must be a list of domains`);
+  }
+  const domains = entries
+    .map(entry => entry.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/?#]/)[0].replace(/^www\./, ''))
+    .filter(Boolean);
+  const invalid = domains.find(domain => !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain));
+  if (invalid) {
+    throw new Error(`${field}: "${invalid}" is not a domain`);
+  }
+  return domains.length > 0 ? [...new Set(domains)] : undefined;
+}
+
+function parseSearchDate(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+    throw new Error(`${field} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+// Validate search settings from a form, the command line or an HTTP body; throws with a readable message
+export function normalizeSearchSettings(input: any): SearchSettings | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object') {
+    throw new Error('search settings must be an object');
+  }
+
+  const settings: SearchSettings = {};
+  if (input.type) {
+    if (!['neural', 'keyword', 'auto'].includes(input.type)) {
+      throw new Error('search type must be neural, keyword or auto');
+    }
+    settings.type = input.type;
+  }
+  if (input.category) {
+    if (!SEARCH_CATEGORIES.includes(input.category)) {
+      throw new Error(`search category must be one of: ${SEARCH_CATEGORIES.join(', ')}`);
+    }
+    settings.category = input.category;
+  }
+  settings.include_domains = parseDomainList(input.include_domains, 'include_domains');
+  settings.exclude_domains = parseDomainList(input.exclude_domains, 'exclude_domains');
+  settings.start_published_date = parseSearchDate(input.start_published_date, 'start_published_date');
+  settings.end_published_date = parseSearchDate(input.end_published_date, 'end_published_date');
+  if (settings.start_published_date && settings.end_published_date && settings.start_published_date > settings.end_published_date) {
+    throw new Error('start_published_date must not be after end_published_date');
+  }
+  if (input.num_results !== undefined && input.num_results !== null && input.num_results !== '') {
+    const count = Number(input.num_results);
+    if (!Number.isInteger(count) || count < 1 || count > 100) {
+      throw new Error('num_results must be a whole number between 1 and 100');
+    }
+    settings.num_results = count;
+  }
+
+  // Drop unset fields so requests, checkpoints and bundles only carry what was chosen
+  const chosen = Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined)) as SearchSettings;
+  return Object.keys(chosen).length > 0 ? chosen : undefined;
+}
+
+// Structured facts an agent extracted from one source's full text
+export interface SourceFindings {
+  claims: string[];
+  figures: string[];
+  dates: string[];
+  entities: string[];
 }
 
 export interface ResearchSource {
@@ -22,6 +124,7 @@ export interface ResearchSource {
   query_used: string;
   relevance_score: number;
   domain: string;
+  findings?: SourceFindings;
 }
 
 export interface LayerSummary {
@@ -34,7 +137,9 @@ export interface LayerSummary {
 }
 
 export interface ResearchResult {
+  run_id?: string; // Matches the id of the run's checkpoints
   original_query: string;
+  settings?: ResearchRequest; // Request the run was started with
   topic_type: string;
   layer_summaries: LayerSummary[];
   all_sources: ResearchSource[];
@@ -42,25 +147,58 @@ export interface ResearchResult {
   total_sources: number;
   research_time: number;
   timestamp: string;
-  status: string;
-  source_utilization?: {
-    utilizationScore: number;
-    sourcesUsed: number;
-    totalSources: number;
-    domainsFound: string[];
-    missingDomains: string[];
-    entitiesFound: string[];
-    missingEntities: string[];
-    foundCitations?: boolean;
-    sourceDetails?: Array<{
-      title: string;
-      domain: string;
-      used: boolean;
-      matchedTerms: string[];
-      confidence: number;
-    }>;
-    verificationReport?: string;
-  };
+  status: ResearchStatus;
+  failures?: ResearchFailure[]; // What went wrong along the way, if anything
+  model_usage?: ModelUsage;
+  source_utilization?: SourceUtilization;
+  follow_ups?: FollowUpMessage[]; // Questions asked about the finished report, with their answers
+}
+
+// Successful LLM calls and token counts per model for one research run
+export interface ModelUsage {
+  [model: string]: { calls: number; prompt_tokens: number; completion_tokens: number };
+}
+
+// completed: full report; partial: report written despite failures (or only some sections);
+// sources_only: no report could be written; cancelled: stopped through the AbortSignal
+export type ResearchStatus = 'completed' | 'partial' | 'sources_only' | 'cancelled';
+
+// A step that failed during a run without stopping it
+export interface ResearchFailure {
+  stage: 'agent' | 'synthesis' | 'section' | 'verification';
+  message: string;
+  agent?: string;
+  layer?: number;
+}
+
+// How much of the collected material the final report actually draws on
+export interface SourceUtilization {
+  utilizationScore: number; // Fraction (0-1) of sources the report uses
+  sourcesUsed: number;
+  totalSources: number;
+  domainsFound: string[];
+  missingDomains: string[];
+  entitiesFound: string[];
+  missingEntities: string[];
+  foundCitations?: boolean; // Whether the report carries inline [n] citation markers
+  sourceDetails?: Array<{
+    title: string;
+    domain: string;
+    used: boolean;
+    matchedTerms: string[];
+    confidence: number;
+  }>;
+  verificationReport?: string;
+  claimVerifications?: ClaimVerification[];
+}
+
+// Outcome of checking one report sentence against the collected sources
+export interface ClaimVerification {
+  claim: string; // Exact sentence from final_synthesis (markdown included) so the UI can locate it
+  verdict: 'supported' | 'contradicted' | 'unsupported';
+  citations: number[];
+  evidence_source?: number; // Citation number of the source holding the deciding evidence
+  explanation: string;
 }
 
 export interface ProgressUpdate {
@@ -89,37 +227,140 @@ export interface ProgressUpdate {
     snippet: string;
     task_id: string;
     agent_id: string;
+    layer?: number;
     timestamp: string;
   }>;
 }
 
+// One turn of the follow-up chat on a finished report
+export interface FollowUpMessage {
+  role: 'user' | 'assistant';
+  content: string; // Markdown; answers cite all_sources by bracketed number
+  timestamp: string;
+  coverage?: FollowUpCoverage; // Assistant turns: how well the sources answered the question
+  searched?: boolean; // Assistant turns: an extra web search ran before answering
+}
+
+export type FollowUpCoverage = 'full' | 'partial' | 'none';
+
+export interface FollowUpAnswer {
+  answer: string;
+  coverage: FollowUpCoverage;
+  new_sources: ResearchSource[]; // Found by the extra search; numbered after the existing all_sources
+}
+
+export interface FollowUpOptions {
+  search?: boolean; // Run a targeted web search first and add what it finds to the sources
+  signal?: AbortSignal;
+}
+
+export interface ResearchRunOptions {
+  signal?: AbortSignal; // Aborting stops in-flight searches and LLM calls
+  onCheckpoint?: (checkpoint: ResearchCheckpoint) => void; // Called after each completed stage
+  resumeFrom?: ResearchCheckpoint; // Skip every stage the checkpoint already completed
+}
+
+// Serializable snapshot of a run after its last completed stage
+export interface ResearchCheckpoint {
+  id: string;
+  request: ResearchRequest;
+  stage: 'roster' | 'layer' | 'report_plan' | 'section';
+  updated_at: string;
+  roster: ResearchRoster;
+  agent_results: AgentResult[]; // Per-agent sources (with content) and findings so far
+  layer_summaries: LayerSummary[];
+  completed_layers: number;
+  layers_finished: boolean; // No more drill-down; the next stage is synthesis
+  seen_urls: string[];
+  report_plan?: ReportPlan;
+  section_drafts: string[];
+  mentioned_facts: string[];
+}
+
+// Thrown when a research run is stopped through its AbortSignal
+export class ResearchCancelledError extends Error {
+  constructor(message: string = 'Research cancelled') {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ResearchCancelledError();
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// setTimeout-based delay that rejects as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal, clock: ResearchClock = systemClock): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ResearchCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(new ResearchCancelledError());
+    };
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Exa result fields in the provider-neutral shape
+function toSearchResult(result: any): SearchResult {
+  return {
+    url: result.url,
+    title: result.title || result.url,
+    score: result.score,
+    text: result.text,
+    published_date: result.publishedDate || undefined
+  };
+}
+
 // Real API Services
-class ExaAPIService {
+class ExaAPIService implements SearchProvider {
+  readonly name = 'Exa';
   private apiKey: string = '';
   private lastRequestTime: number = 0;
   private minDelay: number = 200; // 5 requests per second = 200ms minimum delay
   private requestCount: number = 0;
-  private requestWindow: number = Date.now();
+  private requestWindow: number = 0;
+
+  constructor(private env: ResearchEnvironment) {
+    this.apiKey = env.exaApiKey;
+  }
 
   setApiKey(apiKey: string) {
     this.apiKey = apiKey;
   }
 
   private getApiUrl(endpoint: string): string {
-    // Check if we're in production (deployed) vs development
-    const isProduction = window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1';
-    
-    if (isProduction) {
-      // Use proxy endpoint in production
-      return `/api/exa/${endpoint}`;
-    } else {
-      // Direct API call in development
-      return `https://api.exa.ai/${endpoint}`;
-    }
+    return `${this.env.endpoints.exa}/${endpoint}`;
   }
 
-  private async waitForRateLimit(): Promise<void> {
-    const now = Date.now();
+  // A proxy holding the key server-side needs none from us
+  private hasCredentials(): boolean {
+    return !!this.apiKey || this.env.keysOnServer;
+  }
+
+  // Keys only ever travel in headers, never in URLs
+  private authHeaders(): Record<string, string> {
+    return {
+      ...(this.apiKey && { 'x-api-key': this.apiKey }),
+      ...(this.env.proxyToken && { 'x-proxy-token': this.env.proxyToken })
+    };
+  }
+
+  private async waitForRateLimit(signal?: AbortSignal): Promise<void> {
+    const now = this.env.clock.now();
     
     // Reset request count every second (5 requests per second limit)
     if (now - this.requestWindow > 1000) {
@@ -132,9 +373,9 @@ class ExaAPIService {
       const waitTime = 1000 - (now - this.requestWindow) + 50; // Wait until next second + small buffer
       if (waitTime > 0) {
         console.log(`⏳ Exa rate limit: waiting ${Math.round(waitTime)}ms (${this.requestCount}/5 requests this second)`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
+        await sleep(waitTime, signal, this.env.clock);
         this.requestCount = 0;
-        this.requestWindow = Date.now();
+        this.requestWindow = this.env.clock.now();
       }
     }
     
@@ -142,31 +383,38 @@ class ExaAPIService {
     const timeSinceLastRequest = now - this.lastRequestTime;
     if (timeSinceLastRequest < this.minDelay) {
       const waitTime = this.minDelay - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+      await sleep(waitTime, signal, this.env.clock);
     }
     
-    this.lastRequestTime = Date.now();
+    this.lastRequestTime = this.env.clock.now();
     this.requestCount++;
   }
 
-  async search(query: string, numResults: number = 10): Promise<any[]> {
-    if (!this.apiKey) {
+  async search(query: string, numResults: number = 10, signal?: AbortSignal, settings: SearchSettings = {}): Promise<SearchResult[]> {
+    if (!this.hasCredentials()) {
       throw new Error('Exa API key not configured');
     }
 
     // Respect rate limits before making request
-    await this.waitForRateLimit();
+    await this.waitForRateLimit(signal);
 
-    console.log('🔑 API Key check:', this.apiKey ? `${this.apiKey.substring(0, 8)}...` : 'NOT SET');
+    console.log('🔑 API Key check:', this.apiKey ? 'SET' : this.env.keysOnServer ? 'ON SERVER' : 'NOT SET');
 
     try {
       const apiUrl = this.getApiUrl('search');
       
+      const searchType = settings.type || 'neural';
       const requestBody = {
         query: query,
-        num_results: numResults,
-        type: 'neural',
-        use_autoprompt: true,
+        numResults: numResults,
+        type: searchType,
+        useAutoprompt: searchType !== 'keyword',
+        ...(settings.category && { category: settings.category }),
+        ...(settings.include_domains?.length && { includeDomains: settings.include_domains }),
+        ...(settings.exclude_domains?.length && { excludeDomains: settings.exclude_domains }),
+        // Whole days: the start of the first through the end of the last
+        ...(settings.start_published_date && { startPublishedDate: `${settings.start_published_date}T00:00:00.000Z` }),
+        ...(settings.end_published_date && { endPublishedDate: `${settings.end_published_date}T23:59:59.999Z` }),
         contents: {
           text: true
         }
@@ -174,31 +422,15 @@ class ExaAPIService {
 
       console.log('🔍 Exa search request:', { url: apiUrl, body: requestBody });
       
-      // Check if we're in production and try different approaches
-      const isProduction = window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1';
-      
-      let response;
-      if (isProduction) {
-        // Try with query parameter for production (in case headers aren't working)
-        const urlWithKey = `${apiUrl}?api_key=${encodeURIComponent(this.apiKey)}`;
-        response = await fetch(urlWithKey, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': this.apiKey
-          },
-          body: JSON.stringify(requestBody)
-        });
-      } else {
-        response = await fetch(apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': this.apiKey
-          },
-          body: JSON.stringify(requestBody)
-        });
-      }
+      const response = await this.env.fetch(apiUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...this.authHeaders()
+        },
+        body: JSON.stringify(requestBody),
+        signal
+      });
       
       console.log('📡 Exa search response:', response.status, response.statusText);
       
@@ -223,36 +455,17 @@ class ExaAPIService {
           throw new Error('Exa API access forbidden. Please check your API key permissions.');
         }
         
-        // If production fails, try direct API call as fallback
-        if (isProduction && response.status === 400) {
-          console.log('🔄 Trying direct API call as fallback...');
-          const directResponse = await fetch('https://api.exa.ai/search', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-api-key': this.apiKey
-            },
-            body: JSON.stringify(requestBody)
-          });
-          
-          if (directResponse.ok) {
-            const data = await directResponse.json();
-            console.log('✅ Direct API call succeeded');
-            return data.results || [];
-          }
-          
-          if (directResponse.status === 429) {
-            throw new Error('Exa API rate limit exceeded. Please wait a moment and try again.');
-          }
-        }
-        
         throw new Error(`Exa API error: ${response.status} ${response.statusText}`);
       }
 
       const data = await response.json();
       console.log('✅ Exa search data:', data);
-      return data.results || [];
+      // Enforce the domain lists here too, so a restricted run never collects an off-list publisher
+      return filterResults((data.results || []).map(toSearchResult), settings);
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Exa search failed:', error);
       
       // Re-throw critical errors that should halt research
@@ -266,13 +479,48 @@ class ExaAPIService {
     }
   }
 
-  async getContents(urls: string[]): Promise<any[]> {
-    if (!this.apiKey || urls.length === 0) {
+  // Pages like the given one, with the same filters as search
+  async findSimilar(url: string, numResults: number = 10, signal?: AbortSignal, settings: SearchSettings = {}): Promise<SearchResult[]> {
+    if (!this.hasCredentials()) {
+      throw new Error('Exa API key not configured');
+    }
+    await this.waitForRateLimit(signal);
+
+    const response = await this.env.fetch(this.getApiUrl('findSimilar'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.authHeaders()
+      },
+      body: JSON.stringify({
+        url,
+        numResults,
+        excludeSourceDomain: true,
+        ...(settings.include_domains?.length && { includeDomains: settings.include_domains }),
+        ...(settings.exclude_domains?.length && { excludeDomains: settings.exclude_domains }),
+        ...(settings.start_published_date && { startPublishedDate: `${settings.start_published_date}T00:00:00.000Z` }),
+        ...(settings.end_published_date && { endPublishedDate: `${settings.end_published_date}T23:59:59.999Z` }),
+        contents: { text: true }
+      }),
+      signal
+    });
+    if (!response.ok) {
+      if (response.status === 402) {
+        throw new Error('Exa API credits exhausted. Please top up your account at dashboard.exa.ai to continue using the service.');
+      }
+      throw new Error(`Exa API error: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    return filterResults((data.results || []).map(toSearchResult), settings);
+  }
+
+  async getContents(urls: string[], signal?: AbortSignal): Promise<PageContents[]> {
+    if (!this.hasCredentials() || urls.length === 0) {
       return [];
     }
 
     // Respect rate limits before making request
-    await this.waitForRateLimit();
+    await this.waitForRateLimit(signal);
 
     try {
       const apiUrl = this.getApiUrl('contents');
@@ -286,13 +534,14 @@ class ExaAPIService {
 
       console.log('📄 Exa contents request:', { url: apiUrl, body: requestBody });
       
-      const response = await fetch(apiUrl, {
+      const response = await this.env.fetch(apiUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-api-key': this.apiKey
+          ...this.authHeaders()
         },
-        body: JSON.stringify(requestBody)
+        body: JSON.stringify(requestBody),
+        signal
       });
       
       console.log('📡 Exa contents response:', response.status, response.statusText);
@@ -315,8 +564,11 @@ class ExaAPIService {
 
       const data = await response.json();
       console.log('✅ Exa contents data:', data);
-      return data.results || [];
+      return (data.results || []).map((result: any) => ({ url: result.url || result.id, text: result.text || '' }));
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('Exa contents failed:', error);
       
       // Re-throw critical errors that should halt research
@@ -331,20 +583,20 @@ class ExaAPIService {
   }
 }
 
-class CerebrasAPIService {
-  private apiKey: string = '';
+// Chat completions across every configured model provider, cycling models for throughput and failover
+class LLMService {
+  private apiKey: string = ''; // Key of the built-in Cerebras provider
   private lastRequestTime: number = 0;
   private minDelay: number = 3000; // Increased to 3 seconds for rate limit compliance
   private requestCount: number = 0;
-  private requestWindow: number = Date.now();
+  private requestWindow: number = 0;
   
-  // Available models for intelligent switching (4 distinct models now)
-  private availableModels = [
-    'llama-3.3-70b',
-    'llama-3.1-8b',
-    'llama-4-scout-17b-16e-instruct',
-    'qwen-3-32b'
-  ];
+  // Models cycled through for intelligent switching, from the environment
+  private availableModels: string[] = [];
+
+  // Provider and model behind each entry of the cycle; with several providers entries are "<provider>/<model>"
+  private providerConfigs: LLMProviderConfig[] = [];
+  private slots: Record<string, { provider: LLMProvider; model: string }> = {};
   
   // Model fallback chains for rate limit handling
   private modelChains: { [key: string]: string[] } = {
@@ -368,22 +620,88 @@ class CerebrasAPIService {
   private healthyModels: string[] = [...this.availableModels];
   private lastHealthCheck: number = 0;
 
+  // Usage accumulated since the last resetUsage()
+  private usage: ModelUsage = {};
+
+  constructor(private env: ResearchEnvironment) {
+    this.apiKey = env.cerebrasApiKey;
+    this.setProviders(env.llmProviders);
+  }
+
   setApiKey(apiKey: string) {
     this.apiKey = apiKey;
-    // Initialize all models as healthy
-    this.availableModels.forEach(model => {
+    this.setProviders(this.providerConfigs); // The built-in Cerebras provider carries the key
+  }
+
+  // Cycle the models of these providers; none means the built-in Cerebras provider alone
+  setProviders(configs: LLMProviderConfig[]) {
+    this.providerConfigs = configs.length > 0 ? [...configs] : [{ name: CEREBRAS_PROVIDER }];
+    const providers = this.providerConfigs.map(config => new OpenAICompatibleProvider(
+      config.baseUrl
+        ? { ...config, baseUrl: config.baseUrl }
+        : {
+            ...config,
+            baseUrl: `${this.env.endpoints.cerebras}/v1`,
+            apiKey: this.apiKey, // A proxy holding the key server-side needs none from us
+            keyRequired: !this.env.keysOnServer,
+            headers: this.env.proxyToken ? { 'x-proxy-token': this.env.proxyToken } : undefined,
+            models: config.models?.length ? config.models : this.env.models
+          },
+      this.env.fetch
+    ));
+
+    this.slots = {};
+    for (const provider of providers) {
+      for (const model of provider.models) {
+        this.slots[providers.length > 1 ? `${provider.name}/${model}` : model] = { provider, model };
+      }
+    }
+    // Providers still missing a key sit out; with none ready, chat() reports the missing key
+    const ready = Object.keys(this.slots).filter(slot => this.slots[slot].provider.hasCredentials());
+    this.setModels(ready.length > 0 ? ready : Object.keys(this.slots));
+  }
+
+  private resolveSlot(slot: string): { provider: LLMProvider; model: string } {
+    return this.slots[slot] || { provider: Object.values(this.slots)[0].provider, model: slot };
+  }
+
+  // The provider's own setting wins, then environment overrides by entry or model name, then context.ts defaults
+  private contextWindow(slot: string): number {
+    const { provider, model } = this.resolveSlot(slot);
+    return provider.contextWindow(model) || this.env.contextWindows[slot] || contextWindowFor(model, this.env.contextWindows);
+  }
+
+  // Send a chat completion for a cycle entry to the provider serving it
+  private requestCompletion(slot: string, messages: ChatMessage[], maxTokens: number, signal?: AbortSignal): Promise<Response> {
+    const { provider, model } = this.resolveSlot(slot);
+    console.log(`🧠 ${provider.name} request:`, { model });
+    return provider.chatCompletion({ model, messages, max_tokens: maxTokens, temperature: 0.1, top_p: 0.95 }, signal);
+  }
+
+  // Restrict the model cycle to the given models, e.g. a single model chosen on the command line
+  setModels(models: string[]) {
+    this.availableModels = [...models];
+    this.healthyModels = [...models];
+    this.currentModelIndex = 0;
+    models.forEach(model => {
       this.modelHealth[model] = true;
       this.modelFailureCount[model] = 0;
       this.modelLastFailure[model] = 0;
     });
   }
 
+  // Prompt tokens every model in the cycle can take, so a prompt packed to it fits whichever model runs it
+  promptBudget(systemPrompt?: string): number {
+    const smallestWindow = Math.min(...this.availableModels.map(model => this.contextWindow(model)));
+    return promptTokenBudget(smallestWindow, systemPrompt);
+  }
+
   private getSelectedModel(): string {
-    return localStorage.getItem('cerebras_model') || 'llama-3.3-70b';
+    return this.env.storage?.getItem('cerebras_model') || this.availableModels[0];
   }
 
   private async waitForRateLimit(): Promise<void> {
-    const now = Date.now();
+    const now = this.env.clock.now();
     
     // Reset request count every minute
     if (now - this.requestWindow > 60000) {
@@ -396,9 +714,9 @@ class CerebrasAPIService {
       const waitTime = 60000 - (now - this.requestWindow) + 2000; // Wait until next minute + larger buffer
       if (waitTime > 0) {
         console.log(`⏳ Rate limit approached, waiting ${Math.round(waitTime/1000)}s`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
+        await sleep(waitTime, undefined, this.env.clock);
         this.requestCount = 0;
-        this.requestWindow = Date.now();
+        this.requestWindow = this.env.clock.now();
       }
     }
     
@@ -406,15 +724,15 @@ class CerebrasAPIService {
     const timeSinceLastRequest = now - this.lastRequestTime;
     if (timeSinceLastRequest < this.minDelay) {
       const waitTime = this.minDelay - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+      await sleep(waitTime, undefined, this.env.clock);
     }
     
-    this.lastRequestTime = Date.now();
+    this.lastRequestTime = this.env.clock.now();
     this.requestCount++;
   }
   
   private canUseModel(model: string): boolean {
-    const now = Date.now();
+    const now = this.env.clock.now();
     
     // Initialize tracking for new models
     if (!this.modelRequestCounts[model]) {
@@ -454,16 +772,31 @@ class CerebrasAPIService {
     return preferredModel;
   }
   
+  resetUsage(): void {
+    this.usage = {};
+  }
+
+  getUsage(): ModelUsage {
+    return JSON.parse(JSON.stringify(this.usage));
+  }
+
+  private recordUsage(model: string, usage?: { prompt_tokens?: number; completion_tokens?: number }): void {
+    const entry = this.usage[model] || (this.usage[model] = { calls: 0, prompt_tokens: 0, completion_tokens: 0 });
+    entry.calls++;
+    entry.prompt_tokens += usage?.prompt_tokens || 0;
+    entry.completion_tokens += usage?.completion_tokens || 0;
+  }
+
   private registerModelUsage(model: string): void {
     if (!this.modelRequestCounts[model]) {
       this.modelRequestCounts[model] = 0;
-      this.modelRequestWindows[model] = Date.now();
+      this.modelRequestWindows[model] = this.env.clock.now();
     }
     this.modelRequestCounts[model]++;
   }
   
   private updateHealthyModels(): void {
-    const now = Date.now();
+    const now = this.env.clock.now();
     
     // Check health every 10 seconds
     if (now - this.lastHealthCheck < 10000) return;
@@ -516,7 +849,7 @@ class CerebrasAPIService {
   
   private recordModelFailure(model: string, errorType: string): void {
     this.modelFailureCount[model] = (this.modelFailureCount[model] || 0) + 1;
-    this.modelLastFailure[model] = Date.now();
+    this.modelLastFailure[model] = this.env.clock.now();
     
     const failures = this.modelFailureCount[model];
     console.log(`❌ ${model} failure #${failures} (${errorType})`);
@@ -541,22 +874,22 @@ class CerebrasAPIService {
     return model;
   }
   
-  private async waitForCycleTime(): Promise<void> {
-    const now = Date.now();
+  private async waitForCycleTime(signal?: AbortSignal): Promise<void> {
+    const now = this.env.clock.now();
     const cycleInterval = Math.max(250, 1000 / this.healthyModels.length); // Faster cycling: 1 second distributed across models
     
     const timeSinceLastCycle = now - this.lastCycleTime;
     if (timeSinceLastCycle < cycleInterval) {
       const waitTime = cycleInterval - timeSinceLastCycle;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+      await sleep(waitTime, signal, this.env.clock);
     }
     
-    this.lastCycleTime = Date.now();
+    this.lastCycleTime = this.env.clock.now();
   }
 
   private printModelStatus(): void {
     console.log('\n📊 Model Cycle Status:');
-    const now = Date.now();
+    const now = this.env.clock.now();
     
     for (const model of this.availableModels) {
       const count = this.modelRequestCounts[model] || 0;
@@ -608,37 +941,16 @@ class CerebrasAPIService {
       // Register usage for rate limiting
       this.registerModelUsage(selectedModel);
       
-      // Check if we're in production for API URL
-      const isProduction = window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1';
-      const apiUrl = isProduction 
-        ? '/api/cerebras/v1/chat/completions'
-        : 'https://api.cerebras.ai/v1/chat/completions';
-
-      const messages = systemPrompt 
+      const messages: ChatMessage[] = systemPrompt 
         ? [
             { role: 'system', content: systemPrompt },
             { role: 'user', content: this.preparePromptWithNoThink(prompt, selectedModel) }
           ]
         : [{ role: 'user', content: this.preparePromptWithNoThink(prompt, selectedModel) }];
 
-      console.log('🧠 Cerebras request:', { url: apiUrl, model: selectedModel });
-
-      let response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: selectedModel,
-          messages,
-          max_tokens: 4000,
-          temperature: 0.1,
-          top_p: 0.95,
-        }),
-      });
+      let response = await this.requestCompletion(selectedModel, messages, 4000);
 
-      console.log('📡 Cerebras response:', response.status, response.statusText);
+      console.log('📡 Model response:', response.status, response.statusText);
 
       if (response.status === 429) {
         console.log(`❌ Rate limit hit on ${selectedModel} during API call`);
@@ -654,12 +966,12 @@ class CerebrasAPIService {
         }
         
         // If no alternatives, throw specific rate limit error
-        throw new Error('Cerebras API rate limit exceeded on all available models. Please wait a moment and try again.');
+        throw new Error('Model API rate limit exceeded on all available models. Please wait a moment and try again.');
       }
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`Cerebras API error on ${selectedModel}:`, response.status, errorText);
+        console.error(`Model API error on ${selectedModel}:`, response.status, errorText);
         
         // Try model switching on other errors too
         const alternatives = this.modelChains[selectedModel] || [];
@@ -670,34 +982,6 @@ class CerebrasAPIService {
           }
         }
         
-        // Try direct API call as fallback if production fails
-        if (isProduction && (response.status === 401 || response.status === 400)) {
-          console.log('🔄 Trying direct Cerebras API call as fallback...');
-          const directResponse = await fetch('https://api.cerebras.ai/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: selectedModel,
-              messages,
-              max_tokens: 4000,
-              temperature: 0.1,
-              top_p: 0.95,
-            }),
-          });
-          
-          if (directResponse.ok) {
-            const data = await directResponse.json();
-            console.log('✅ Direct Cerebras API call succeeded');
-            let content = data.choices?.[0]?.message?.content || 'No response generated';
-            // Remove thinking tags if present
-            content = this.removeThinkingTags(content);
-            return content;
-          }
-        }
-        
         return 'API request failed';
       }
 
@@ -726,31 +1010,31 @@ class CerebrasAPIService {
     }
   }
 
-  async chat(prompt: string, systemPrompt?: string): Promise<string> {
-    if (!this.apiKey) {
+  async chat(prompt: string, systemPrompt?: string, signal?: AbortSignal): Promise<string> {
+    // Only the built-in Cerebras provider can be missing its key
+    const providers = [...new Set(Object.values(this.slots).map(({ provider }) => provider))];
+    if (!providers.some(provider => provider.hasCredentials())) {
       throw new Error('Cerebras API key not configured');
     }
 
-
-
-    console.log('🔑 Cerebras API Key check:', this.apiKey ? `${this.apiKey.substring(0, 8)}...` : 'NOT SET');
+    console.log('🔑 Model providers:', providers.map(provider => `${provider.name} ${provider.hasCredentials() ? 'ready' : 'NO KEY'}`).join(', '));
     
     // Show current model status
     this.printModelStatus();
 
     // Use cycling approach for 3x speedup
-    return await this.chatWithCycling(prompt, systemPrompt);
+    return await this.chatWithCycling(prompt, systemPrompt, 0, signal);
   }
 
-  private async chatWithCycling(prompt: string, systemPrompt?: string, attemptCount: number = 0): Promise<string> {
+  private async chatWithCycling(prompt: string, systemPrompt?: string, attemptCount: number = 0, signal?: AbortSignal): Promise<string> {
     // Prevent infinite recursion
     if (attemptCount > 10) {
       console.log('🚫 Maximum retry attempts reached, all models failed');
-      throw new Error('Cerebras API rate limit exceeded on all available models. Please wait a moment and try again.');
+      throw new Error('Model API rate limit exceeded on all available models. Please wait a moment and try again.');
     }
     
     // Wait for our turn in the cycle (maintains 2-second total cycle time)
-    await this.waitForCycleTime();
+    await this.waitForCycleTime(signal);
     
     // Get next model in cycle
     const selectedModel = this.getNextModelInCycle();
@@ -759,58 +1043,32 @@ class CerebrasAPIService {
       // Register usage for tracking
       this.registerModelUsage(selectedModel);
       
-      // Check if we're in production for API URL
-      const isProduction = window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1';
-      const apiUrl = isProduction 
-        ? '/api/cerebras/v1/chat/completions'
-        : 'https://api.cerebras.ai/v1/chat/completions';
-
-      // Estimate token count and truncate if needed
-      const estimatedTokens = (prompt.length + (systemPrompt?.length || 0)) / 3.5; // Rough estimate
-      let adjustedPrompt = this.preparePromptWithNoThink(prompt, selectedModel); // Add /no_think for qwen
+      // Fit the prompt to this model's window; callers pack to promptBudget(), so this rarely cuts anything
+      const contextWindow = this.contextWindow(selectedModel);
       let adjustedSystemPrompt = systemPrompt;
-      
-      if (estimatedTokens > 7000) { // Leave room for response
-        console.log(`⚠️ Content too long (${Math.round(estimatedTokens)} tokens), truncating for ${selectedModel}`);
-        const maxPromptChars = Math.floor(7000 * 3.5 * 0.8); // 80% for user prompt
-        const maxSystemChars = Math.floor(7000 * 3.5 * 0.2); // 20% for system prompt
-        
-        if (systemPrompt && systemPrompt.length > maxSystemChars) {
-          adjustedSystemPrompt = systemPrompt.substring(0, maxSystemChars) + '...';
-        }
-        // Note: adjustedPrompt already has /no_think added, so we need to preserve that
-        const basePrompt = selectedModel === 'qwen-3-32b' ? prompt : adjustedPrompt; 
-        if (basePrompt.length > maxPromptChars) {
-          const truncatedBase = basePrompt.substring(0, maxPromptChars) + '...';
-          adjustedPrompt = selectedModel === 'qwen-3-32b' ? `/no_think\n\n${truncatedBase}` : truncatedBase;
-        }
+      if (systemPrompt && countTokens(systemPrompt) > contextWindow / 4) {
+        adjustedSystemPrompt = fitPrompt(systemPrompt, Math.floor(contextWindow / 4));
       }
+      const promptBudget = promptTokenBudget(contextWindow, adjustedSystemPrompt);
+      const promptTokens = countTokens(prompt);
+      let fittedPrompt = prompt;
+      if (promptTokens > promptBudget) {
+        console.log(`⚠️ Prompt of ${promptTokens} tokens exceeds ${selectedModel}'s ${promptBudget}-token budget, dropping middle passages`);
+        fittedPrompt = fitPrompt(prompt, promptBudget);
+      }
+      const adjustedPrompt = this.preparePromptWithNoThink(fittedPrompt, selectedModel); // Add /no_think for qwen
+      const maxTokens = completionTokenBudget(contextWindow, countTokens(adjustedPrompt) + countTokens(adjustedSystemPrompt || ''));
 
-      const adjustedMessages = adjustedSystemPrompt 
+      const adjustedMessages: ChatMessage[] = adjustedSystemPrompt 
         ? [
             { role: 'system', content: adjustedSystemPrompt },
             { role: 'user', content: adjustedPrompt }
           ]
         : [{ role: 'user', content: adjustedPrompt }];
 
-      console.log('🧠 Cerebras request:', { url: apiUrl, model: selectedModel });
-
-      let response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: selectedModel,
-          messages: adjustedMessages,
-          max_tokens: 4000,
-          temperature: 0.1,
-          top_p: 0.95,
-        }),
-      });
+      let response = await this.requestCompletion(selectedModel, adjustedMessages, maxTokens, signal);
 
-      console.log('📡 Cerebras response:', response.status, response.statusText);
+      console.log('📡 Model response:', response.status, response.statusText);
 
       if (response.status === 429) {
         this.recordModelFailure(selectedModel, 'rate_limit');
@@ -819,17 +1077,17 @@ class CerebrasAPIService {
         // Check if we have healthy alternatives before recursing
         this.updateHealthyModels();
         if (this.healthyModels.length === 0) {
-          console.log('🚫 All Cerebras models exhausted, escalating to research level');
-          throw new Error('Cerebras API rate limit exceeded on all available models. Please wait a moment and try again.');
+          console.log('🚫 All models exhausted, escalating to research level');
+          throw new Error('Model API rate limit exceeded on all available models. Please wait a moment and try again.');
         }
         
         // Try next model in cycle immediately
-        return await this.chatWithCycling(prompt, systemPrompt, attemptCount + 1);
+        return await this.chatWithCycling(prompt, systemPrompt, attemptCount + 1, signal);
       }
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`Cerebras API error on ${selectedModel}:`, response.status, errorText);
+        console.error(`Model API error on ${selectedModel}:`, response.status, errorText);
         
         // Handle different error types
         if (response.status === 400 && errorText.includes('context_length_exceeded')) {
@@ -843,11 +1101,12 @@ class CerebrasAPIService {
         }
         
         // Try next model in cycle
-        return await this.chatWithCycling(prompt, systemPrompt, attemptCount + 1);
+        return await this.chatWithCycling(prompt, systemPrompt, attemptCount + 1, signal);
       }
 
       const data = await response.json();
       console.log(`✅ Successful API call on ${selectedModel}`);
+      this.recordUsage(selectedModel, data.usage);
       
       // Reset failure count on success
       if (this.modelFailureCount[selectedModel] > 0) {
@@ -863,11 +1122,14 @@ class CerebrasAPIService {
       return content;
       
     } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error(`Exception on ${selectedModel}:`, error);
       this.recordModelFailure(selectedModel, 'exception');
       
       // Try next model in cycle
-      return await this.chatWithCycling(prompt, systemPrompt, attemptCount + 1);
+      return await this.chatWithCycling(prompt, systemPrompt, attemptCount + 1, signal);
     }
   }
 
@@ -876,51 +1138,320 @@ class CerebrasAPIService {
     return content.replace(/<think>[\s\S]*?<\/think>\s*/g, '').trim();
   }
 
-  private preparePromptWithNoThink(prompt: string, model: string): string {
-    // Add /no_think instruction for qwen model to prevent thinking tags
-    if (model === 'qwen-3-32b') {
+  private preparePromptWithNoThink(prompt: string, slot: string): string {
+    // Add /no_think instruction for Qwen 3 models (qwen-3-32b, qwen3:8b, ...) to prevent thinking tags
+    if (/qwen-?3/i.test(this.resolveSlot(slot).model)) {
       return `/no_think\n\n${prompt}`;
     }
     return prompt;
   }
 }
 
+// Parse a JSON object out of an LLM response, tolerating code fences and surrounding prose
+function parseJsonResponse<T>(response: string): T | null {
+  const cleaned = response.replace(/```(?:json)?/gi, '').trim();
+  const start = cleaned.search(/[[{]/);
+  if (start === -1) return null;
+  const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+  if (end <= start) return null;
+
+  try {
+    return JSON.parse(cleaned.substring(start, end + 1)) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Sources packed into one extraction call share its prompt budget about this many ways
+const EXTRACTION_SOURCES_PER_BATCH = 3;
+
+// Tokens of each source shown when auditing coverage; enough for its gist, not its detail
+const GAP_DIGEST_TOKENS_PER_SOURCE = 100;
+
+// Section writing: a key source's snippet, and what each earlier section shows to prevent repetition
+const SECTION_SNIPPET_TOKENS = 60;
+const PREVIOUS_SECTION_TOKENS = 100;
+
+// Matches inline citation markers such as [3] or [2, 5]
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// All citation numbers used in a report, in order of first appearance
+export function extractCitationNumbers(text: string): number[] {
+  const numbers: number[] = [];
+  // Ignore the generated reference list so only in-text citations count
+  const body = text.split(/^## References\s*$/m)[0];
+  for (const match of body.matchAll(CITATION_PATTERN)) {
+    match[1].split(',').map(n => parseInt(n.trim(), 10)).forEach(n => {
+      if (!numbers.includes(n)) numbers.push(n);
+    });
+  }
+  return numbers;
+}
+
+// Reference list entry; uploaded documents have no address to link to
+export function formatReference(source: ResearchSource, index: number): string {
+  const title = source.title.replace(/[[\]]/g, '') || source.url;
+  return isLocalDocument(source)
+    ? `[${index + 1}] ${title} - uploaded document`
+    : `[${index + 1}] [${title}](${source.url}) - ${source.domain}`;
+}
+
+// Request as saved with the result: the documents' text is already in all_sources wherever it was used
+function resultSettings(request: ResearchRequest): ResearchRequest {
+  const { documents, ...settings } = request;
+  return settings;
+}
+
+// Numbered reference list whose numbers match all_sources order
+function buildReferencesSection(sources: ResearchSource[]): string {
+  if (sources.length === 0) return '';
+  return `## References\n\n${sources.map(formatReference).join('\n')}`;
+}
+
+// Swap the source URLs agents put in their findings for citation numbers
+function citeFindings(findings: string, citationNumbers: Map<string, number>): string {
+  return findings.replace(/\((https?:\/\/[^\s)]+)\)/g, (match, url) => {
+    const number = citationNumbers.get(url);
+    return number ? `[${number}]` : match;
+  });
+}
+
+// Follow-up chat: earlier turns sent along with a question, and sources an extra search may add
+const FOLLOW_UP_HISTORY_TURNS = 4;
+const FOLLOW_UP_SEARCH_SOURCES = 5;
+
+// Verification budget: sentences checked per report and per LLM call
+const MAX_VERIFIED_CLAIMS = 30;
+const VERIFICATION_BATCH_SIZE = 5;
+
+// Plain text of a markdown sentence, without emphasis, links or citation markers
+function stripMarkdown(text: string): string {
+  return text
+    .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+    .replace(CITATION_PATTERN, '')
+    .replace(/[*_`#>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Checkable factual sentences of a report body, as exact substrings of it
+function splitIntoClaims(report: string): string[] {
+  const body = report.split(/^## (?:Open Questions|References)/m)[0];
+  const sentences = body
+    .split('\n')
+    .filter(line => line.trim() && !line.trim().startsWith('#'))
+    .flatMap(line => line.replace(/^\s*(?:[-*]|\d+\.)\s+/, '').split(/(?<=[.!?])\s+(?=[A-Z"“(])/))
+    .map(sentence => sentence.trim())
+    .filter(sentence => stripMarkdown(sentence).length >= 40);
+
+  // Cited sentences and sentences with figures carry the most checkable facts
+  const priority = (sentence: string) =>
+    (extractCitationNumbers(sentence).length > 0 ? 2 : 0) + (/\d/.test(sentence) ? 1 : 0);
+  return [...sentences].sort((a, b) => priority(b) - priority(a));
+}
+
+// Fallback entity extraction for sources without LLM findings: frequent proper nouns and acronyms
+function extractEntities(text: string, limit: number = 8): string[] {
+  const counts = new Map<string, number>();
+  const pattern = /\b(?:[A-Z][a-z]+(?:\s+(?:of|for|and|de|la)?\s*[A-Z][a-z]+)+|[A-Z]{2,}[a-z]?\b)/g;
+  for (const match of text.substring(0, 20000).matchAll(pattern)) {
+    const entity = match[0].trim();
+    if (entity.length < 3 || COMMON_CAPITALIZED.has(entity)) continue;
+    counts.set(entity, (counts.get(entity) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([entity]) => entity);
+}
+
+const COMMON_CAPITALIZED = new Set(['The', 'This', 'That', 'These', 'However', 'In The', 'For Example', 'THE', 'AND', 'FOR', 'PDF', 'HTML', 'URL']);
+
+// ~600-char passages on sentence boundaries
+function splitIntoPassages(text: string, size: number = 600): string[] {
+  const sentences = text.replace(/\s+/g, ' ').split(/(?<=[.!?])\s+/);
+  const passages: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > size) {
+      passages.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  }
+  if (current.trim()) passages.push(current);
+  return passages;
+}
+
+// Order passages by how many of the query's terms they contain
+function rankPassages<T extends { text: string }>(query: string, passages: T[]): T[] {
+  const terms = [...new Set(query.toLowerCase().split(/\W+/).filter(term => term.length > 3 || /\d/.test(term)))];
+  if (terms.length === 0) return [];
+
+  return passages
+    .map(passage => {
+      const lower = passage.text.toLowerCase();
+      return { passage, score: terms.filter(term => lower.includes(term)).length / terms.length };
+    })
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .map(item => item.passage);
+}
+
+interface AgentTaskOptions {
+  layer?: number;
+  queries?: string[]; // Pre-planned queries (drill-down layers) instead of generated ones
+  targetSources?: number; // Per-agent source budget derived from sources_per_layer
+  search?: SearchSettings;
+  documents?: ResearchSource[];
+  documentsOnly?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface AgentResult {
+  specialization: string;
+  sources: ResearchSource[];
+  findings: string;
+  confidence_gaps: string[];
+  queries_used: string[];
+}
+
+// Report outline produced by the synthesis planner
+export interface ReportPlan {
+  reportTitle: string;
+  sections: any[];
+}
+
+// Everything a run has gathered so far, kept outside the call stack so a cancelled run can still report it
+interface ResearchRunState {
+  id: string;
+  request: ResearchRequest;
+  query: string;
+  topicType: string;
+  startTime: number;
+  roster?: ResearchRoster;
+  agentResults: AgentResult[];
+  layerSummaries: LayerSummary[];
+  completedLayers: number;
+  layersFinished: boolean;
+  activityUpdates: any[];
+  allStreamingSources: any[];
+  reportPlan?: ReportPlan;
+  sectionDrafts: string[]; // Report sections written so far
+  mentionedFacts: string[];
+}
+
+// One agent's assignment within a research layer
+interface LayerTask {
+  task: string;
+  queries?: string[];
+}
+
+// Topic classes the lead researcher can assign to a query
+const TOPIC_TYPES = [
+  'technology',
+  'science',
+  'medical',
+  'legal_regulatory',
+  'business_market',
+  'policy',
+  'historical',
+  'comparative',
+  'general'
+];
+
+export interface ResearchRoster {
+  topic_type: string;
+  agents: Array<{ name: string; specialization: string }>;
+}
+
+// Used when query classification is unavailable; the last two only join when more agents are requested
+const DEFAULT_SPECIALIZATIONS = [
+  'Core concepts and fundamental principles',
+  'Latest developments and recent breakthroughs',
+  'Key players, companies, and market dynamics',
+  'Future implications and emerging trends',
+  'Evidence, data, and quantitative findings',
+  'Challenges, risks, and criticisms'
+];
+
+function defaultRoster(agentCount = 4): ResearchRoster {
+  return {
+    topic_type: 'general',
+    agents: DEFAULT_SPECIALIZATIONS.slice(0, agentCount).map((specialization, index) => ({
+      name: `Research Agent ${index + 1}`,
+      specialization
+    }))
+  };
+}
+
 // Specialist Research Agent
 class SpecialistAgent {
   constructor(
     public agentId: string,
     public agentName: string,
     public specialization: string,
-    private exaService: ExaAPIService,
-    private cerebrasService: CerebrasAPIService,
-    private globalSeenUrls: Set<string>
+    private searchProvider: SearchProvider,
+    private llmService: LLMService,
+    private globalSeenUrls: Set<string>,
+    private clock: ResearchClock = systemClock
   ) {}
 
+  private signal?: AbortSignal;
+  private searchSettings: SearchSettings = {}; // Set for the duration of a task
+  private documents: ResearchSource[] = [];
+  private documentsOnly = false;
+  // Sources from the current task, kept reachable so a cancelled run can still report them
+  public collectedSources: ResearchSource[] = [];
+
   async executeTask(
     originalQuery: string,
     task: string,
-    onProgress: (update: any) => void
-  ): Promise<{
-    sources: ResearchSource[];
-    findings: string;
-    confidence_gaps: string[];
-  }> {
-    console.log(`🔍 ${this.agentName} starting task: ${task}`);
+    onProgress: (update: any) => void,
+    options: AgentTaskOptions = {}
+  ): Promise<AgentResult> {
+    const layer = options.layer || 1;
+    this.signal = options.signal;
+    this.searchSettings = options.search || {};
+    this.documents = options.documents || [];
+    this.documentsOnly = !!options.documentsOnly;
+    console.log(`🔍 ${this.agentName} starting layer ${layer} task: ${task}`);
     
     const allSources: ResearchSource[] = [];
+    this.collectedSources = allSources;
     const streamingSources: any[] = [];
     
-    // Generate search queries for this task
-    const queries = await this.generateSearchQueries(originalQuery, task);
-    console.log(`Generated ${queries.length} search queries:`, queries);
+    // Use planned drill-down queries when provided, otherwise generate them for this task
+    const queries = options.queries && options.queries.length > 0
+      ? options.queries
+      : await this.generateSearchQueries(originalQuery, task);
+    console.log(`Using ${queries.length} search queries:`, queries);
     
     // Execute searches and collect sources
     for (const query of queries) {
       try {
-        const targetCount = this.getSourceCountForQuery(originalQuery, task);
+        const targetCount = options.targetSources || this.getSourceCountForQuery(originalQuery, task);
         console.log(`🔍 Searching for "${query}" (target: ${targetCount} sources)`);
+
+        // Uploaded documents are searched first, so they are never crowded out by web results
+        for (const source of this.takeDocuments(query, targetCount - allSources.length, layer)) {
+          allSources.push(source);
+          console.log(`📎 DOCUMENT Source: ${source.title.substring(0, 50)}... | ${source.word_count} words`);
+          streamingSources.push({
+            title: source.title,
+            domain: source.domain,
+            url: source.url,
+            snippet: (source.content || '').substring(0, 300) + '...'
+          });
+          onProgress({
+            streaming_sources: [...streamingSources]
+          });
+        }
+        if (this.documentsOnly) continue;
         
-        const results = await this.exaService.search(query, targetCount + 5); // Get extra for deduplication
+        const resultCount = this.searchSettings.num_results || targetCount + 5; // Extra for deduplication
+        const results = await this.searchProvider.search(query, resultCount, this.signal, this.searchSettings);
         console.log(`Found ${results.length} search results`);
         
         // Process each result
@@ -935,7 +1466,7 @@ class SpecialistAgent {
           this.globalSeenUrls.add(result.url);
           
           // Get full content
-          const contents = await this.exaService.getContents([result.url]);
+          const contents = await this.searchProvider.getContents([result.url], this.signal);
           if (contents.length > 0) {
             const content = contents[0];
             const contentLength = (content.text || '').length;
@@ -947,7 +1478,7 @@ class SpecialistAgent {
               content: content.text || '',
               word_count: wordCount,
               exa_score: result.score || 0.5,
-              layer: 1,
+              layer: layer,
               query_used: query,
               relevance_score: result.score || 0.5,
               domain: this.extractDomain(result.url)
@@ -978,15 +1509,15 @@ class SpecialistAgent {
         }
         
         // If still need more sources, try broader search
-        if (allSources.length < targetCount) {
+        if (allSources.length < targetCount && !this.documentsOnly) {
           console.log(`⚠️ Only found ${allSources.length}/${targetCount} sources, trying broader search...`);
-          const broaderResults = await this.exaService.search(originalQuery, targetCount * 2);
+          const broaderResults = await this.searchProvider.search(originalQuery, targetCount * 2, this.signal, this.searchSettings);
           
           for (const result of broaderResults) {
             if (this.globalSeenUrls.has(result.url)) continue;
             
             this.globalSeenUrls.add(result.url);
-            const contents = await this.exaService.getContents([result.url]);
+            const contents = await this.searchProvider.getContents([result.url], this.signal);
             
             if (contents.length > 0) {
               const content = contents[0];
@@ -998,7 +1529,7 @@ class SpecialistAgent {
                 content: content.text || '',
                 word_count: wordCount,
                 exa_score: result.score || 0.5,
-                layer: 1,
+                layer: layer,
                 query_used: `${originalQuery} (broader)`,
                 relevance_score: result.score || 0.5,
                 domain: this.extractDomain(result.url)
@@ -1026,9 +1557,12 @@ class SpecialistAgent {
         }
         
         // Faster delay between queries for speed
-        await new Promise(resolve => setTimeout(resolve, 300));
+        await sleep(300, this.signal, this.clock);
         
       } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
         console.error(`Search failed for query "${query}":`, error);
         
         // Check if this is a critical error that should halt research
@@ -1045,19 +1579,74 @@ class SpecialistAgent {
     
     console.log(`🎯 ${this.agentName} collected ${allSources.length} unique sources`);
     
+    // Find what the collected sources leave unanswered and chase those gaps before reporting
+    let confidence_gaps = await this.identifyGaps(allSources, originalQuery, task);
+    if (confidence_gaps.length > 0) {
+      const followUpCount = await this.searchForGaps(confidence_gaps, layer, allSources, streamingSources, onProgress);
+      if (followUpCount > 0) {
+        confidence_gaps = await this.identifyGaps(allSources, originalQuery, task, confidence_gaps);
+      }
+      console.log(`🕳️ ${this.agentName} has ${confidence_gaps.length} unresolved gaps after ${followUpCount} follow-up sources`);
+    }
+    
     // Analyze findings
     const findings = await this.analyzeFindings(allSources, originalQuery, task);
-    const confidence_gaps = await this.identifyGaps(allSources, originalQuery, task);
     
     return {
+      specialization: task,
       sources: allSources,
       findings,
-      confidence_gaps
+      confidence_gaps,
+      queries_used: queries
     };
   }
 
   private async generateSearchQueries(originalQuery: string, task: string): Promise<string[]> {
-    // Use smart static templates instead of LLM generation to reduce API calls
+    const now = new Date(this.clock.now());
+    const currentDate = now.toISOString().split('T')[0];
+
+    try {
+      const response = await this.llmService.chat(
+        `You are planning web searches for one research agent.
+
+Today's date: ${currentDate}
+User query: "${originalQuery}"
+This agent's focus: ${task}
+
+Decompose the query into 3-4 search queries that together cover this agent's focus:
+- Each query targets a DIFFERENT sub-question, angle or source type (studies, official data, expert analysis, case studies, news)
+- Use the specific vocabulary of the query's field, named entities, mechanisms and metrics rather than generic words like "overview", "key players" or "trends"
+- When recency matters, anchor queries to the current date (e.g. ${now.getFullYear()} or "since ${now.getFullYear() - 1}"); never use outdated years as "latest"
+- Each query should read like something an expert would type into a search engine (5-12 words)
+
+Respond with JSON only in exactly this format:
+{ "queries": ["query one", "query two", "query three"] }`,
+        `You are an expert research librarian who writes precise, diverse search queries. Respond with valid JSON only.`,
+        this.signal
+      );
+
+      const parsed = parseJsonResponse<{ queries?: string[] }>(response);
+      const queries = [...new Set((parsed?.queries || [])
+        .filter(q => typeof q === 'string' && q.trim())
+        .map(q => q.trim()))]
+        .slice(0, 4);
+
+      if (queries.length >= 2) {
+        return queries;
+      }
+      console.warn(`⚠️ Search planner returned ${queries.length} usable queries for "${task}", using templates`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error(`❌ Search planning failed for ${this.agentName}, using templates:`, error);
+    }
+
+    return this.getTemplateSearchQueries(originalQuery, task, now.getFullYear());
+  }
+
+  private getTemplateSearchQueries(originalQuery: string, task: string, currentYear: number): string[] {
+    // Offline fallback when the planner is unavailable
     const templates = {
       'Core concepts and fundamental principles': [
         `${originalQuery} fundamentals basics principles`,
@@ -1065,7 +1654,7 @@ class SpecialistAgent {
         `what is ${originalQuery} definition explanation`
       ],
       'Latest developments and recent breakthroughs': [
-        `${originalQuery} latest news 2024 2023`,
+        `${originalQuery} latest news ${currentYear} ${currentYear - 1}`,
         `${originalQuery} recent breakthroughs developments`,
         `${originalQuery} new research advances`
       ],
@@ -1103,30 +1692,286 @@ class SpecialistAgent {
       return `No sources found for task: ${task}`;
     }
 
-    // Skip expensive individual source analysis - just summarize what we collected
     const totalWords = sources.reduce((sum, s) => sum + (s.word_count || 0), 0);
     const domains = [...new Set(sources.map(s => s.domain))];
     
-    console.log(`📊 Collected ${sources.length} sources (${totalWords} words) from ${domains.length} domains for: ${task}`);
-    
-    // Create a simple summary without additional LLM calls
-    const sourceSummary = sources.map(s => 
-      `${s.title} (${s.domain}, ${s.word_count} words)`
-    ).join('\n');
-    
-    return `SOURCES COLLECTED FOR "${task}" (${totalWords} words total):
-
-${sourceSummary}
-
-Content will be processed in comprehensive synthesis phase.`;
-  }
+    console.log(`📊 Reading ${sources.length} sources (${totalWords} words) from ${domains.length} domains for: ${task}`);
+
+    // Pack the most relevant passages of each source into batches that fit the context budget
+    const focusTerms = `${originalQuery} ${task}`;
+    const systemPrompt = `You are a meticulous research analyst who extracts grounded, source-specific facts. Respond with valid JSON only.`;
+    const renderPrompt = (sourceData: string) => `Extract structured findings from each source below for this research task.
+
+Query: "${originalQuery}"
+Task: ${task}
+
+${sourceData}
+
+For EACH source, extract only what the text actually states and what is relevant to the task:
+- claims: specific factual claims, findings or arguments (one sentence each)
+- figures: numbers with their meaning and units (e.g. "$4.2B funding in 2024")
+- dates: dated events (e.g. "March 2025: FDA approval")
+- entities: organizations, people, products, laws, places
+Use empty lists when a source has nothing relevant. Never add outside knowledge.
+
+Respond with JSON only in exactly this format:
+{ "sources": [ { "id": 1, "claims": [], "figures": [], "dates": [], "entities": [] } ] }`;
+    const renderSource = (source: ResearchSource, index: number, excerpt: string) => `SOURCE ${index + 1}: ${source.title} (${source.url})
+${excerpt}`;
+    const separator = '\n\n---\n\n';
+
+    const batchBudget = this.llmService.promptBudget(systemPrompt) - countTokens(renderPrompt(''));
+    const sourceBudget = Math.floor(batchBudget / EXTRACTION_SOURCES_PER_BATCH);
+    const batches: Array<Array<{ source: ResearchSource; excerpt: string }>> = [];
+    let currentBatch: Array<{ source: ResearchSource; excerpt: string }> = [];
+    let currentTokens = 0;
+
+    for (const source of sources) {
+      const headerTokens = countTokens(renderSource(source, EXTRACTION_SOURCES_PER_BATCH, '')) + countTokens(separator);
+      const excerpt = packText(source.content || '', focusTerms, sourceBudget - headerTokens);
+      if (!excerpt.trim()) continue;
+
+      const tokens = headerTokens + countTokens(excerpt);
+      if (currentBatch.length > 0 && currentTokens + tokens > batchBudget) {
+        batches.push(currentBatch);
+        currentBatch = [];
+        currentTokens = 0;
+      }
+      currentBatch.push({ source, excerpt });
+      currentTokens += tokens;
+    }
+    if (currentBatch.length > 0) batches.push(currentBatch);
 
-  private async identifyGaps(sources: ResearchSource[], originalQuery: string, task: string): Promise<string[]> {
-    return []; // Simplified - no gap analysis to reduce complexity
-  }
+    for (const batch of batches) {
+      try {
+        const response = await this.llmService.chat(
+          renderPrompt(batch.map((item, index) => renderSource(item.source, index, item.excerpt)).join(separator)),
+          systemPrompt,
+          this.signal
+        );
 
-  private extractDomain(url: string): string {
-    try {
+        const parsed = parseJsonResponse<{ sources?: Array<Partial<SourceFindings> & { id?: number }> }>(response);
+        (parsed?.sources || []).forEach((entry, index) => {
+          const item = batch[(entry.id || index + 1) - 1];
+          if (!item) return;
+          const list = (values: unknown) => Array.isArray(values)
+            ? values.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()).slice(0, 12)
+            : [];
+          item.source.findings = {
+            claims: list(entry.claims),
+            figures: list(entry.figures),
+            dates: list(entry.dates),
+            entities: list(entry.entities)
+          };
+        });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (isAbortError(error) || errorMessage.includes('credits exhausted') || errorMessage.includes('402')) {
+          throw error;
+        }
+        console.error(`❌ Extraction failed for a batch of ${batch.length} sources:`, error);
+      }
+    }
+
+    const extracted = sources.filter(s => s.findings);
+    console.log(`🧾 ${this.agentName} extracted findings from ${extracted.length}/${sources.length} sources in ${batches.length} calls`);
+
+    // Sources without extractions still appear so synthesis knows they exist
+    const sourceSummary = sources.map(s => {
+      if (!s.findings) {
+        return `• ${s.title} (${s.url}) - not extracted, ${s.word_count} words`;
+      }
+      const lines = [`• ${s.title} (${s.url})`];
+      if (s.findings.claims.length > 0) lines.push(`  Claims: ${s.findings.claims.join('; ')}`);
+      if (s.findings.figures.length > 0) lines.push(`  Figures: ${s.findings.figures.join('; ')}`);
+      if (s.findings.dates.length > 0) lines.push(`  Dates: ${s.findings.dates.join('; ')}`);
+      if (s.findings.entities.length > 0) lines.push(`  Entities: ${s.findings.entities.join(', ')}`);
+      return lines.join('\n');
+    }).join('\n');
+    
+    return `FINDINGS FOR "${task}" (${sources.length} sources, ${totalWords} words read):
+
+${sourceSummary}`;
+  }
+
+  private async identifyGaps(
+    sources: ResearchSource[],
+    originalQuery: string,
+    task: string,
+    openGaps?: string[]
+  ): Promise<string[]> {
+    if (sources.length === 0) {
+      return [`No sources found addressing: ${task}`];
+    }
+
+    // On re-check we only ask which of the known gaps are still open, so the list can only shrink
+    const instructions = openGaps
+      ? `These questions were previously unanswered:
+${openGaps.map(gap => `- ${gap}`).join('\n')}
+
+Return ONLY the questions from that list that the sources above still do not answer, copied verbatim.`
+      : `List up to 4 concrete questions that this task needs answered but the sources above do NOT answer (missing figures, unexplained mechanisms, unverified claims, missing perspectives or time periods).
+Each question must be self-contained and specific enough to use directly as a web search query. If the sources fully cover the task, return an empty list.`;
+
+    const systemPrompt = `You identify precise, unanswered research questions. Respond with valid JSON only.`;
+    const renderPrompt = (sourceDigest: string) => `You are auditing research coverage.
+
+Query: "${originalQuery}"
+Task: ${task}
+
+COLLECTED SOURCES:
+${sourceDigest}
+
+${instructions}
+
+Respond with JSON only in exactly this format:
+{ "gaps": ["question one", "question two"] }`;
+
+    // The most relevant sentences of each source, within its share of the prompt budget
+    const digestSources = sources.slice(0, 15);
+    const digestShare = Math.floor((this.llmService.promptBudget(systemPrompt) - countTokens(renderPrompt(''))) / digestSources.length);
+    const sourceDigest = digestSources.map((s, index) => {
+      const header = `${index + 1}. ${s.title} (${s.domain}):`;
+      const budget = Math.min(GAP_DIGEST_TOKENS_PER_SOURCE, digestShare - countTokens(header) - 1);
+      return `${header} ${packText(s.content || '', `${originalQuery} ${task}`, Math.max(0, budget)).replace(/\s+/g, ' ')}`;
+    }).join('\n');
+
+    try {
+      const response = await this.llmService.chat(renderPrompt(sourceDigest), systemPrompt, this.signal);
+
+      const parsed = parseJsonResponse<{ gaps?: string[] }>(response);
+      const gaps = (parsed?.gaps || [])
+        .filter(gap => typeof gap === 'string' && gap.trim())
+        .map(gap => gap.trim())
+        .slice(0, 4);
+
+      return openGaps ? gaps.filter(gap => openGaps.includes(gap)) : gaps;
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error(`❌ Gap analysis failed for ${this.agentName}:`, error);
+      // Without a verdict, keep previously known gaps rather than claiming coverage
+      return openGaps || [];
+    }
+  }
+
+  private async searchForGaps(
+    gaps: string[],
+    layer: number,
+    allSources: ResearchSource[],
+    streamingSources: any[],
+    onProgress: (update: any) => void
+  ): Promise<number> {
+    let added = 0;
+
+    for (const gap of gaps.slice(0, 3)) {
+      try {
+        console.log(`🎯 Follow-up search for gap: "${gap}"`);
+        let addedForGap = 0;
+        for (const source of this.takeDocuments(gap, 2, layer, `${gap} (gap follow-up)`)) {
+          allSources.push(source);
+          added++;
+          addedForGap++;
+          console.log(`📎 GAP Document: ${source.title.substring(0, 50)}...`);
+          streamingSources.push({
+            title: source.title,
+            domain: source.domain,
+            url: source.url,
+            snippet: (source.content || '').substring(0, 300) + '...'
+          });
+          onProgress({
+            streaming_sources: [...streamingSources]
+          });
+        }
+        if (this.documentsOnly || addedForGap >= 2) continue;
+
+        const results = await this.searchProvider.search(gap, 4, this.signal, this.searchSettings);
+
+        for (const result of results) {
+          if (this.globalSeenUrls.has(result.url)) continue;
+          this.globalSeenUrls.add(result.url);
+
+          const source = await this.fetchSource(result, `${gap} (gap follow-up)`, layer);
+          if (!source) continue;
+
+          allSources.push(source);
+          added++;
+          addedForGap++;
+          console.log(`📄 GAP Source: ${source.title.substring(0, 50)}... | ${source.domain}`);
+
+          streamingSources.push({
+            title: source.title,
+            domain: source.domain,
+            url: source.url,
+            snippet: (source.content || '').substring(0, 300) + '...'
+          });
+          onProgress({
+            streaming_sources: [...streamingSources]
+          });
+
+          if (addedForGap >= 2) break;
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (isAbortError(error) || errorMessage.includes('credits exhausted') || errorMessage.includes('402')) {
+          throw error;
+        }
+        console.error(`Follow-up search failed for gap "${gap}":`, error);
+      }
+    }
+
+    return added;
+  }
+
+  // Up to `limit` new sources for one targeted query, e.g. a follow-up question on a finished report
+  async findSources(query: string, limit: number, layer: number, signal?: AbortSignal, settings: SearchSettings = {}): Promise<ResearchSource[]> {
+    this.signal = signal;
+    const sources: ResearchSource[] = [];
+    const results = await this.searchProvider.search(query, limit + 3, signal, settings); // Extra for deduplication
+    for (const result of results) {
+      if (this.globalSeenUrls.has(result.url)) continue;
+      this.globalSeenUrls.add(result.url);
+
+      const source = await this.fetchSource(result, query, layer);
+      if (!source || !source.content.trim()) continue;
+      sources.push(source);
+      console.log(`📄 FOLLOW-UP Source: ${source.title.substring(0, 50)}... | ${source.domain}`);
+      if (sources.length >= limit) break;
+    }
+    return sources;
+  }
+
+  // Uploaded documents matching a query that no agent has used yet, claimed for this one
+  private takeDocuments(query: string, limit: number, layer: number, queryUsed: string = query): ResearchSource[] {
+    if (limit <= 0 || this.documents.length === 0) return [];
+    const unclaimed = this.documents.filter(document => !this.globalSeenUrls.has(document.url));
+    return searchDocuments(unclaimed, query, limit).map(({ document, score }) => {
+      this.globalSeenUrls.add(document.url);
+      return { ...document, layer, query_used: queryUsed, relevance_score: score };
+    });
+  }
+
+  private async fetchSource(result: SearchResult, queryUsed: string, layer: number): Promise<ResearchSource | null> {
+    const contents = await this.searchProvider.getContents([result.url], this.signal);
+    if (contents.length === 0) return null;
+
+    const text = contents[0].text || '';
+    return {
+      url: result.url,
+      title: result.title,
+      content: text,
+      word_count: text.split(/\s+/).length,
+      exa_score: result.score || 0.5,
+      layer: layer,
+      query_used: queryUsed,
+      relevance_score: result.score || 0.5,
+      domain: this.extractDomain(result.url)
+    };
+  }
+
+  private extractDomain(url: string): string {
+    try {
       return new URL(url).hostname;
     } catch {
       return 'unknown';
@@ -1149,19 +1994,47 @@ Content will be processed in comprehensive synthesis phase.`;
 
 // Lead Researcher - Orchestrates the multi-agent system
 class LeadResearcher {
-  private exaService = new ExaAPIService();
-  private cerebrasService = new CerebrasAPIService();
+  private exaService: ExaAPIService;
+  private searchProvider: SearchProvider; // Exa, other backends or several at once (see search.ts)
+  private llmService: LLMService;
   private globalSeenUrls = new Set<string>(); // Track URLs across all agents
+  private signal?: AbortSignal; // Set for the duration of a run
+  private searchSettings?: SearchSettings; // Set for the duration of a run
+  private documents: ResearchSource[] = []; // Uploaded documents of the current run
+  private documentsOnly = false;
+  private failures: ResearchFailure[] = []; // Failures recorded during the current run
+  private onCheckpoint?: (checkpoint: ResearchCheckpoint) => void;
+
+  constructor(private env: ResearchEnvironment = createEnvironment()) {
+    this.exaService = new ExaAPIService(env);
+    this.llmService = new LLMService(env);
+    this.searchProvider = createSearchProvider(env.searchProviders, env, this.exaService);
+  }
 
   setApiKeys(exaKey: string, cerebrasKey: string) {
     this.exaService.setApiKey(exaKey);
-    this.cerebrasService.setApiKey(cerebrasKey);
+    this.llmService.setApiKey(cerebrasKey);
+  }
+
+  setSearchProviders(configs: SearchProviderConfig[]) {
+    this.env.searchProviders = [...configs];
+    this.searchProvider = createSearchProvider(this.env.searchProviders, this.env, this.exaService);
+  }
+
+  setLLMProviders(configs: LLMProviderConfig[]) {
+    this.env.llmProviders = [...configs];
+    this.llmService.setProviders(this.env.llmProviders);
   }
   
+  // ISO timestamp from the environment's clock
+  private timestamp(): string {
+    return new Date(this.env.clock.now()).toISOString();
+  }
+
   private logModelUsage(stage: string) {
     console.log(`\n🔬 ${stage} - Model Status Check:`);
     // Access the private method via type assertion for logging
-    (this.cerebrasService as any).printModelStatus();
+    (this.llmService as any).printModelStatus();
   }
 
   private cleanReportTitle(query: string): string {
@@ -1185,25 +2058,191 @@ class LeadResearcher {
   }
 
   async orchestrateResearch(
-    query: string,
-    onProgress: (update: ProgressUpdate) => void
+    request: ResearchRequest,
+    onProgress: (update: ProgressUpdate) => void,
+    options: ResearchRunOptions = {}
   ): Promise<ResearchResult> {
-    const startTime = Date.now();
-    this.globalSeenUrls.clear();
-    
-    // Pre-flight check: Test API connectivity before starting research
-    console.log('🔍 Pre-flight API check...');
+    this.signal = options.signal;
+    this.onCheckpoint = options.onCheckpoint;
+    // Copy the checkpoint so resuming never mutates the caller's object
+    const resume: ResearchCheckpoint | undefined = options.resumeFrom
+      ? JSON.parse(JSON.stringify(options.resumeFrom))
+      : undefined;
+    const run: ResearchRunState = {
+      id: resume?.id || `${this.env.clock.now()}`,
+      request: resume?.request || request,
+      query: resume?.request.query || request.query,
+      topicType: resume?.roster.topic_type || 'general',
+      startTime: this.env.clock.now(),
+      roster: resume?.roster,
+      agentResults: resume?.agent_results || [],
+      layerSummaries: resume?.layer_summaries || [],
+      completedLayers: resume?.completed_layers || 0,
+      layersFinished: resume?.layers_finished || false,
+      activityUpdates: [],
+      allStreamingSources: [],
+      reportPlan: resume?.report_plan,
+      sectionDrafts: resume?.section_drafts || [],
+      mentionedFacts: resume?.mentioned_facts || []
+    };
+    this.searchSettings = run.request.search;
+    this.documents = run.request.documents || [];
+    this.documentsOnly = !!run.request.documents_only;
+    if (this.documentsOnly && this.documents.length === 0) {
+      throw new Error('Research from your documents only needs at least one uploaded document.');
+    }
+    this.failures = [];
+    this.llmService.resetUsage();
+
     try {
-      // Quick test search to verify Exa API is working
-      await this.exaService.search('test connectivity', 1);
+      return await this.runResearch(run.request, onProgress, run, resume?.seen_urls);
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log(`⏹ Research cancelled after ${((this.env.clock.now() - run.startTime) / 1000).toFixed(1)}s`);
+        return this.buildFallbackResult(run, 'cancelled', onProgress);
+      }
+
+      // Without any sources there is nothing worth returning
       const errorMessage = error instanceof Error ? error.message : String(error);
-      if (errorMessage.includes('credits exhausted') || errorMessage.includes('402')) {
-        // Immediately fail if credits are exhausted
-        throw new Error('Research cannot start: Exa API credits have been exhausted. Please top up your account at dashboard.exa.ai to continue using the service.');
+      if (!run.agentResults.some(result => result.sources.length > 0)) {
+        throw error;
+      }
+      console.error('❌ Research failed after collecting sources, returning what exists:', error);
+      this.failures.push({ stage: 'synthesis', message: errorMessage });
+      return this.buildFallbackResult(run, run.sectionDrafts.length > 0 ? 'partial' : 'sources_only', onProgress);
+    } finally {
+      this.signal = undefined;
+      this.onCheckpoint = undefined;
+    }
+  }
+
+  // Hand the run's completed stages to the caller for persistence
+  private checkpoint(run: ResearchRunState, stage: ResearchCheckpoint['stage']): void {
+    if (!this.onCheckpoint || !run.roster) return;
+
+    try {
+      // Deep copy: the run keeps mutating these arrays after the callback returns
+      this.onCheckpoint(JSON.parse(JSON.stringify({
+        id: run.id,
+        request: run.request,
+        stage,
+        updated_at: this.timestamp(),
+        roster: run.roster,
+        agent_results: run.agentResults,
+        layer_summaries: run.layerSummaries,
+        completed_layers: run.completedLayers,
+        layers_finished: run.layersFinished,
+        seen_urls: Array.from(this.globalSeenUrls),
+        report_plan: run.reportPlan,
+        section_drafts: run.sectionDrafts,
+        mentioned_facts: run.mentionedFacts
+      })));
+      console.log(`💾 Checkpoint saved after ${stage.replace('_', ' ')}`);
+    } catch (error) {
+      console.error('❌ Failed to save checkpoint:', error);
+    }
+  }
+
+  // Answer a follow-up question on a finished report from its collected sources. With options.search,
+  // a targeted web search runs first and its sources join the pool with numbers after all_sources.
+  // The result is not modified; callers append the turn and new sources themselves.
+  async answerFollowUp(result: ResearchResult, question: string, options: FollowUpOptions = {}): Promise<FollowUpAnswer> {
+    throwIfAborted(options.signal);
+    const history = (result.follow_ups || []).slice(-FOLLOW_UP_HISTORY_TURNS);
+
+    let newSources: ResearchSource[] = [];
+    if (options.search && !result.settings?.documents_only) {
+      console.log(`🎯 Follow-up search for: "${question}"`);
+      const searcher = new SpecialistAgent(
+        'follow_up',
+        'Follow-up Researcher',
+        'Targeted search for a follow-up question',
+        this.searchProvider,
+        this.llmService,
+        new Set(result.all_sources.map(source => source.url)),
+        this.env.clock
+      );
+      // The question alone is often elliptical ("what about Europe?"), so anchor it to the original query
+      newSources = await searcher.findSources(
+        `${result.original_query}: ${question}`,
+        FOLLOW_UP_SEARCH_SOURCES,
+        result.layer_summaries.length + 1,
+        options.signal,
+        result.settings?.search
+      );
+    }
+
+    const sources = [...result.all_sources, ...newSources];
+    const systemPrompt = `You are a research assistant answering follow-up questions about a finished research report strictly from its sources.`;
+    const renderPrompt = (sourceData: string) => `Answer a follow-up question about the research report on "${result.original_query}".
+
+${history.length > 0 ? `CONVERSATION SO FAR:
+${history.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n\n')}
+
+` : ''}SOURCES:
+${sourceData || 'No passages in the sources relate to this question.'}
+
+QUESTION: ${question}
+
+RULES:
+1. Answer ONLY from the SOURCES above; never add outside knowledge
+2. Cite every claim with the source's bracketed number right after it, e.g. "...grew 40% [3]." or "[2][5]"
+3. Lead with the direct answer, then the supporting detail; at most 300 words of Markdown, no headings
+4. If the sources answer only part of the question, or none of it, say plainly what is missing
+5. Start your reply with exactly one line "COVERAGE: full", "COVERAGE: partial" or "COVERAGE: none", then the answer`;
+
+    const documents = sources.map((source, index) => ({
+      header: `[${index + 1}] ${source.title} (${source.domain})`,
+      text: source.content || ''
+    }));
+    const focus = `${question} ${history.filter(message => message.role === 'user').map(message => message.content).join(' ')}`;
+    const sourceData = packDocuments(documents, focus, this.llmService.promptBudget(systemPrompt) - countTokens(renderPrompt('')));
+
+    console.log(`💬 Answering follow-up from ${sources.length} sources: "${question}"`);
+    const response = await this.llmService.chat(renderPrompt(sourceData), systemPrompt, options.signal);
+
+    const marker = response.match(/^\s*\**COVERAGE:\**\s*(full|partial|none)\b[^\n]*\n*/i);
+    const answer = (marker ? response.slice(marker[0].length) : response).trim();
+    const coverage: FollowUpCoverage = marker
+      ? marker[1].toLowerCase() as FollowUpCoverage
+      : extractCitationNumbers(answer).length > 0 ? 'partial' : 'none';
+
+    return { answer, coverage, new_sources: newSources };
+  }
+
+  private async runResearch(
+    request: ResearchRequest,
+    onProgress: (update: ProgressUpdate) => void,
+    run: ResearchRunState,
+    resumedSeenUrls: string[] = []
+  ): Promise<ResearchResult> {
+    const query = request.query;
+    const maxLayers = Math.max(1, Math.min(request.max_layers || 1, 5)); // Cap drill-down depth to keep runs bounded
+    const startTime = run.startTime;
+    this.globalSeenUrls.clear();
+    // Sources already collected before a resume must not be fetched again
+    resumedSeenUrls.forEach(url => this.globalSeenUrls.add(url));
+    
+    // Pre-flight check: Test API connectivity before starting research
+    if (this.documentsOnly) {
+      console.log(`📎 Researching ${this.documents.length} uploaded documents only, web search is off`);
+    } else {
+      console.log('🔍 Pre-flight API check...');
+      try {
+        // Quick test search to verify the search provider is working
+        await this.searchProvider.search('test connectivity', 1, this.signal);
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (errorMessage.includes('credits exhausted') || errorMessage.includes('402')) {
+          // Immediately fail if credits are exhausted
+          throw new Error('Research cannot start: Exa API credits have been exhausted. Please top up your account at dashboard.exa.ai to continue using the service.');
+        }
+        // For other errors, log but continue (might be transient)
+        console.warn('⚠️ Pre-flight API check failed, but continuing:', errorMessage);
       }
-      // For other errors, log but continue (might be transient)
-      console.warn('⚠️ Pre-flight API check failed, but continuing:', errorMessage);
     }
     
     // Show initial model status
@@ -1224,78 +2263,554 @@ class LeadResearcher {
         id: 'init',
         title: 'Research Initialized',
         content: `Starting comprehensive research on: "${query}"`,
-        timestamp: new Date().toISOString(),
+        timestamp: this.timestamp(),
         type: 'query'
       }],
       streaming_sources: []
     });
 
-    // Create 4 specialist agents with different focus areas
-    const tasks = [
-      'Core concepts and fundamental principles',
-      'Latest developments and recent breakthroughs', 
-      'Key players, companies, and market dynamics',
-      'Future implications and emerging trends'
-    ];
+    // Classify the query and pick specialist agents tailored to it
+    const resumed = !!run.roster;
+    const roster = run.roster || await this.planResearchRoster(query, request.agent_count);
+    const tasks = roster.agents.map(agent => agent.specialization);
+    run.roster = roster;
+    run.topicType = roster.topic_type;
+    if (!resumed) {
+      this.checkpoint(run, 'roster');
+    }
 
-    const agents = tasks.map((task, index) => new SpecialistAgent(
+    const agents = roster.agents.map((agent, index) => new SpecialistAgent(
       `agent_${index + 1}`,
-      `Research Agent ${index + 1}`,
-      task,
-      this.exaService,
-      this.cerebrasService,
-      this.globalSeenUrls
+      agent.name,
+      agent.specialization,
+      this.searchProvider,
+      this.llmService,
+      this.globalSeenUrls,
+      this.env.clock
     ));
 
-    const agentResults: any[] = [];
-    const allStreamingSources: any[] = [];
-    const activityUpdates: any[] = [{
+    // Split the per-layer source budget across however many agents were spawned
+    const sourcesPerAgent = Math.max(2, Math.ceil((request.sources_per_layer || 48) / agents.length));
+
+    const allStreamingSources = run.allStreamingSources;
+    const activityUpdates = run.activityUpdates;
+    activityUpdates.push({
       id: 'init',
       title: 'Research Initialized', 
       content: `Starting comprehensive research on: "${query}"`,
-      timestamp: new Date().toISOString(),
+      timestamp: this.timestamp(),
       type: 'query'
-    }];
+    }, {
+      id: 'roster',
+      title: 'Research Team Assembled',
+      content: `${roster.topic_type.replace(/_/g, ' ')} topic: ${roster.agents.map(agent => agent.name).join(', ')}`,
+      timestamp: this.timestamp(),
+      type: 'complete'
+    });
 
-    // Set up clean activity tracking
-    let completedAgents = 0;
-    
-    // Initialize all agent activities as pending
-    agents.forEach((_, i) => {
-      activityUpdates.push({
-        id: `agent_${i + 1}`,
-        title: `Agent ${i + 1}: ${tasks[i]}`,
-        content: `Waiting to start...`,
-        timestamp: new Date().toISOString(),
-        type: 'processing',
-        progress: 0,
-        status: 'pending'
+    // Accumulated results per agent across all layers (same index = same specialization)
+    const agentResults = run.agentResults;
+    if (agentResults.length === 0) {
+      agentResults.push(...tasks.map(task => ({
+        specialization: task,
+        sources: [],
+        findings: '',
+        confidence_gaps: [],
+        queries_used: []
+      })));
+    }
+    const layerSummaries = run.layerSummaries;
+
+    if (resumed) {
+      const restoredSources = agentResults.flatMap(result => result.sources);
+      allStreamingSources.push(...restoredSources.map(source => ({
+        title: source.title,
+        domain: source.domain,
+        url: source.url,
+        snippet: (source.content || '').substring(0, 300) + '...',
+        task_id: 'checkpoint',
+        agent_id: 'checkpoint',
+        layer: source.layer,
+        timestamp: this.timestamp()
+      })));
+      activityUpdates.unshift({
+        id: 'resume',
+        title: 'Resumed From Checkpoint',
+        content: `${restoredSources.length} sources from ${run.completedLayers} layer(s)${run.sectionDrafts.length > 0 ? `, ${run.sectionDrafts.length} report sections` : ''} restored`,
+        timestamp: this.timestamp(),
+        type: 'complete'
       });
+    }
+
+    // Layer 1 uses each agent's own specialization; deeper layers are planned from the previous layer
+    let layerTasks: LayerTask[] = tasks.map(task => ({ task }));
+
+    for (let layer = run.completedLayers + 1; !run.layersFinished && layer <= maxLayers; layer++) {
+      if (layer > 1) {
+        activityUpdates.unshift({
+          id: `plan_layer_${layer}`,
+          title: `Planning Layer ${layer}`,
+          content: `Deriving drill-down queries from layer ${layer - 1} findings and gaps`,
+          timestamp: this.timestamp(),
+          type: 'processing',
+          progress: 0,
+          status: 'active'
+        });
+
+        onProgress({
+          stage: `Planning Layer ${layer} Drill-Down`,
+          query: query,
+          layer: layer,
+          sources_found: allStreamingSources.length,
+          total_sources: allStreamingSources.length,
+          progress_percent: Math.round(((layer - 1) / maxLayers) * 80),
+          completed: false,
+          error: null,
+          final_result: null,
+          activity_updates: [...activityUpdates],
+          streaming_sources: [...allStreamingSources]
+        });
+
+        layerTasks = await this.planNextLayer(query, layer, layerSummaries[layerSummaries.length - 1], agentResults);
+
+        const planIndex = activityUpdates.findIndex(activity => activity.id === `plan_layer_${layer}`);
+        if (planIndex !== -1) {
+          activityUpdates[planIndex] = {
+            ...activityUpdates[planIndex],
+            content: `✓ ${layerTasks.reduce((sum, t) => sum + (t.queries?.length || 0), 0)} follow-up queries planned`,
+            type: 'complete',
+            progress: 100,
+            status: 'completed'
+          };
+        }
+      }
+
+      const layerResults = await this.runLayer(
+        query,
+        layer,
+        maxLayers,
+        agents,
+        layerTasks,
+        sourcesPerAgent,
+        activityUpdates,
+        allStreamingSources,
+        onProgress
+      );
+
+      // Merge this layer into the per-agent accumulation
+      layerResults.forEach((result, i) => {
+        const accumulated = agentResults[i];
+        accumulated.sources.push(...result.sources);
+        accumulated.findings = accumulated.findings
+          ? `${accumulated.findings}\n\nLAYER ${layer} (${layerTasks[i].task}):\n${result.findings}`
+          : result.findings;
+        accumulated.confidence_gaps = result.confidence_gaps; // Latest layer reflects what is still open
+        accumulated.queries_used.push(...result.queries_used);
       });
 
-    // Send initial setup with all pending agents
+      // Stopped agents hand back partial results; keep them and stop here
+      throwIfAborted(this.signal);
+
+      const layerSourceCount = layerResults.reduce((sum, result) => sum + result.sources.length, 0);
+      layerSummaries.push(await this.summarizeLayer(query, layer, layerTasks, layerResults));
+
+      run.completedLayers = layer;
+
+      // Stop drilling down once a layer stops turning up new material
+      if (layer > 1 && layerSourceCount === 0) {
+        console.log(`🛑 Layer ${layer} found no new sources, stopping drill-down`);
+        run.layersFinished = true;
+      }
+      this.checkpoint(run, 'layer');
+      if (run.layersFinished) break;
+    }
+    run.layersFinished = true;
+
+    // Collect all sources
+    const allSources = agentResults.flatMap(result => result.sources);
+    console.log(`Total sources collected: ${allSources.length} across ${layerSummaries.length} layer(s)`);
+
+    // Check if research should be halted due to critical errors
+    const failedAgents = agentResults.filter(result => result.sources.length === 0);
+    const criticalErrors = agentResults.filter(result => 
+      result.findings.includes('credits exhausted') || result.findings.includes('402')
+    );
+    
+    // If all agents failed due to credit exhaustion, don't proceed with synthesis
+    if (criticalErrors.length === agentResults.length && allSources.length === 0) {
+      const errorMessage = 'Research cannot continue: Exa API credits have been exhausted. Please top up your account at dashboard.exa.ai to continue using the service.';
+      
+      // Send error update
       onProgress({
-      stage: 'Initializing Research Agents',
+        stage: 'Research Failed',
+        query: query,
+        layer: layerSummaries.length,
+        sources_found: 0,
+        total_sources: 0,
+        progress_percent: 100,
+        completed: true,
+        error: errorMessage,
+        final_result: null,
+        activity_updates: [...activityUpdates],
+        streaming_sources: [...allStreamingSources]
+      });
+      
+      throw new Error(errorMessage);
+    }
+
+    // Add synthesis task at TOP (newest first) ONLY after all agents complete
+    activityUpdates.unshift({
+      id: 'synthesis',
+      title: 'Report Generation',
+      content: `Analyzing ${allSources.length} sources`,
+      timestamp: this.timestamp(),
+      type: 'processing',
+      progress: 0,
+      status: 'active'
+    });
+
+    onProgress({
+      stage: 'Starting Report Generation',
       query: query,
-      layer: 1,
-      sources_found: 0,
-      total_sources: 0,
-      progress_percent: 0,
+      layer: layerSummaries.length,
+      sources_found: allSources.length,
+      total_sources: allSources.length,
+      progress_percent: 80, // Agents complete = 80%, now starting synthesis
+      completed: false,
+      error: null,
+      final_result: null,
+      activity_updates: [...activityUpdates],
+      streaming_sources: [...allStreamingSources]
+    });
+
+    // Create synthesis with progress updates
+    const synthesisIndex = activityUpdates.findIndex(activity => activity.id === 'synthesis');
+    
+    // Update progress during synthesis
+    if (synthesisIndex !== -1) {
+      activityUpdates[synthesisIndex] = {
+        ...activityUpdates[synthesisIndex],
+        content: `Processing research data...`,
+        progress: 25,
+        status: 'active'
+      };
+    }
+
+    onProgress({
+      stage: 'Processing Research Data',
+      query: query,
+      layer: layerSummaries.length,
+      sources_found: allSources.length,
+      total_sources: allSources.length,
+      progress_percent: 85,
+      completed: false,
+      error: null,
+      final_result: null,
+      activity_updates: [...activityUpdates],
+      streaming_sources: [...allStreamingSources]
+    });
+
+    const { summary } = await this.synthesizeFindings(query, agentResults, run);
+
+    // Surface what the research could not substantiate so readers can weigh the report
+    const openGaps = [...new Set(agentResults.flatMap(result => result.confidence_gaps))]
+      .filter(gap => gap !== 'Agent execution failed');
+    const reportBody = openGaps.length > 0
+      ? `${summary}\n\n## Open Questions & Limitations\n\nThe collected sources did not substantiate the following:\n\n${openGaps.map(gap => `- ${gap}`).join('\n')}`
+      : summary;
+    const finalSynthesis = `${reportBody}\n\n${buildReferencesSection(allSources)}`;
+
+    // Mark synthesis as completed
+    if (synthesisIndex !== -1) {
+      activityUpdates[synthesisIndex] = {
+        ...activityUpdates[synthesisIndex],
+        content: `✓ Report generated successfully`,
+        type: 'complete',
+        progress: 100,
+        status: 'completed'
+      };
+    }
+
+    // Check the report's claims against the text of the collected sources
+    activityUpdates.unshift({
+      id: 'verification',
+      title: 'Fact Verification',
+      content: 'Checking report claims against sources...',
+      timestamp: this.timestamp(),
+      type: 'processing',
+      progress: 0,
+      status: 'active'
+    });
+
+    onProgress({
+      stage: 'Verifying Claims',
+      query: query,
+      layer: layerSummaries.length,
+      sources_found: allSources.length,
+      total_sources: allSources.length,
+      progress_percent: 92,
+      completed: false,
+      error: null,
+      final_result: null,
+      activity_updates: [...activityUpdates],
+      streaming_sources: [...allStreamingSources]
+    });
+
+    const claimVerifications = await this.verifyClaims(summary, allSources);
+    const verificationReport = this.buildVerificationReport(claimVerifications);
+    const utilization = this.analyzeSourceUtilization(finalSynthesis, allSources);
+
+    const verificationIndex = activityUpdates.findIndex(activity => activity.id === 'verification');
+    if (verificationIndex !== -1) {
+      const flagged = claimVerifications.filter(v => v.verdict !== 'supported').length;
+      activityUpdates[verificationIndex] = {
+        ...activityUpdates[verificationIndex],
+        content: `✓ ${claimVerifications.length} claims checked, ${flagged} flagged`,
+        type: 'complete',
+        progress: 100,
+        status: 'completed'
+      };
+    }
+
+    const researchTime = (this.env.clock.now() - startTime) / 1000;
+    
+    // Show final model usage status
+    console.log(`\n🏁 Research completed in ${researchTime.toFixed(1)}s`);
+    this.logModelUsage('Research Complete');
+
+    const result: ResearchResult = {
+      run_id: run.id,
+      original_query: query,
+      settings: resultSettings(run.request),
+      topic_type: roster.topic_type,
+      layer_summaries: layerSummaries,
+      all_sources: allSources,
+      final_synthesis: finalSynthesis,
+      total_sources: allSources.length,
+      research_time: researchTime,
+      timestamp: this.timestamp(),
+      status: this.failures.length > 0 ? 'partial' : 'completed',
+      failures: this.failures.length > 0 ? [...this.failures] : undefined,
+      model_usage: this.llmService.getUsage(),
+      source_utilization: {
+        ...utilization,
+        verificationReport,
+        claimVerifications
+      }
+    };
+
+    // Send final completion update
+    onProgress({
+      stage: 'Complete',
+      query: query,
+      layer: layerSummaries.length,
+      sources_found: allSources.length,
+      total_sources: allSources.length,
+      progress_percent: 100,
+      completed: true,
+      error: null,
+      final_result: result,
+      activity_updates: [...activityUpdates],
+      streaming_sources: [...allStreamingSources]
+    });
+
+    return result;
+  }
+
+  // Package whatever a run had gathered when it could not finish: section drafts if any,
+  // otherwise each agent's findings, plus the reference list
+  private buildFallbackResult(
+    run: ResearchRunState,
+    status: 'partial' | 'sources_only' | 'cancelled',
+    onProgress: (update: ProgressUpdate) => void
+  ): ResearchResult {
+    const allSources = run.agentResults.flatMap(result => result.sources);
+    const citationNumbers = new Map(allSources.map((source, index) => [source.url, index + 1]));
+    const findingsSections = run.agentResults
+      .filter(result => result.findings.trim())
+      .map(result => `### ${result.specialization}\n\n${citeFindings(result.findings, citationNumbers)}`);
+
+    const note = status === 'cancelled'
+      ? `Research was stopped before the report was finished. ${allSources.length} sources had been collected.`
+      : status === 'partial'
+        ? `The report could not be completed; ${run.sectionDrafts.length} section(s) were written from ${allSources.length} sources.`
+        : `The report could not be written. The ${allSources.length} collected sources and the agents' raw notes are below.`;
+
+    const body = run.sectionDrafts.length > 0
+      ? run.sectionDrafts.join('\n\n')
+      : findingsSections.length > 0 ? `## Collected Findings\n\n${findingsSections.join('\n\n')}` : '';
+
+    const report = [
+      `# ${this.cleanReportTitle(run.query)}`,
+      `> ${note}`,
+      body,
+      buildReferencesSection(allSources)
+    ].filter(Boolean).join('\n\n');
+
+    const result: ResearchResult = {
+      run_id: run.id,
+      original_query: run.query,
+      settings: resultSettings(run.request),
+      topic_type: run.topicType,
+      layer_summaries: run.layerSummaries,
+      all_sources: allSources,
+      final_synthesis: report,
+      total_sources: allSources.length,
+      research_time: (this.env.clock.now() - run.startTime) / 1000,
+      timestamp: this.timestamp(),
+      status,
+      failures: this.failures.length > 0 ? [...this.failures] : undefined,
+      model_usage: this.llmService.getUsage()
+    };
+
+    // Nothing is running any more
+    run.activityUpdates.forEach((activity, index) => {
+      if (activity.status === 'active' || activity.status === 'pending') {
+        run.activityUpdates[index] = { ...activity, type: 'error', status: 'failed' };
+      }
+    });
+
+    run.activityUpdates.unshift({
+      id: status,
+      title: status === 'cancelled' ? 'Research Stopped' : 'Partial Results',
+      content: status === 'cancelled'
+        ? `⏹ Stopped with ${allSources.length} sources collected`
+        : `⚠ ${this.failures.length} step(s) failed; returning ${allSources.length} sources`,
+      timestamp: this.timestamp(),
+      type: 'error',
+      status: 'failed'
+    });
+
+    onProgress({
+      stage: status === 'cancelled' ? 'Research Stopped' : 'Partial Results',
+      query: run.query,
+      layer: Math.max(1, run.layerSummaries.length),
+      sources_found: allSources.length,
+      total_sources: allSources.length,
+      progress_percent: 100,
+      completed: true,
+      error: null,
+      final_result: result,
+      activity_updates: [...run.activityUpdates],
+      streaming_sources: [...run.allStreamingSources]
+    });
+
+    return result;
+  }
+
+  private async planResearchRoster(query: string, agentCount?: number): Promise<ResearchRoster> {
+    const requested = agentCount ? Math.max(1, Math.min(Math.round(agentCount), 6)) : null;
+    const teamSize = requested
+      ? `exactly ${requested} specialist agent${requested === 1 ? '' : 's'}`
+      : 'between 2 and 6 specialist agents';
+    try {
+      const response = await this.llmService.chat(
+        `You are assembling a team of research agents for this query:
+
+"${query}"
+
+1. Classify the query into ONE topic type: ${TOPIC_TYPES.join(', ')}
+2. Choose ${teamSize} whose specializations together cover everything a thorough report on this query needs. Tailor them to the query, for example:
+   - legal/regulatory query: statutes and case law, regulatory agencies and enforcement, compliance practice, jurisdictional comparison
+   - medical query: clinical trial evidence, mechanisms of action, safety and adverse events, guidelines and access
+   - historical query: historical background, primary accounts, historiographical debates, legacy
+   - comparative query: one agent per option being compared plus a comparative review agent
+   ${requested ? '' : 'Use fewer agents for narrow questions and more for broad ones. '}Specializations must not overlap.
+
+Respond with JSON only in exactly this format:
+{
+  "topic_type": "one of the topic types",
+  "agents": [
+    { "name": "Short role name", "specialization": "One sentence describing exactly what this agent researches" }
+  ]
+}`,
+        `You are a research director who designs specialist research teams. Respond with valid JSON only.`,
+        this.signal
+      );
+
+      const parsed = parseJsonResponse<{ topic_type?: string; agents?: Array<{ name?: string; specialization?: string }> }>(response);
+      const rosterAgents = (parsed?.agents || [])
+        .filter(agent => typeof agent?.specialization === 'string' && agent.specialization.trim())
+        .slice(0, requested || 6)
+        .map((agent, index) => ({
+          name: agent.name?.trim() || `Research Agent ${index + 1}`,
+          specialization: agent.specialization!.trim()
+        }));
+
+      if (requested ? rosterAgents.length === requested : rosterAgents.length >= 2) {
+        const topicType = TOPIC_TYPES.includes(parsed?.topic_type as string) ? parsed!.topic_type! : 'general';
+        console.log(`👥 Research roster (${topicType}):`, rosterAgents);
+        return { topic_type: topicType, agents: rosterAgents };
+      }
+      console.warn(`⚠️ Roster planner returned ${rosterAgents.length} usable agents${requested ? ` of ${requested} requested` : ''}, using default roster`);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error('❌ Roster planning failed, using default roster:', error);
+    }
+
+    return defaultRoster(requested || undefined);
+  }
+
+  private async runLayer(
+    query: string,
+    layer: number,
+    maxLayers: number,
+    agents: SpecialistAgent[],
+    layerTasks: LayerTask[],
+    sourcesPerAgent: number | undefined,
+    activityUpdates: any[],
+    allStreamingSources: any[],
+    onProgress: (update: ProgressUpdate) => void
+  ): Promise<AgentResult[]> {
+    // Each layer owns an equal slice of the 0-80% agent phase
+    const progressBase = ((layer - 1) / maxLayers) * 80;
+    const progressSpan = 80 / maxLayers;
+    const activityId = (i: number) => layer === 1 ? `agent_${i + 1}` : `agent_${i + 1}_layer_${layer}`;
+
+    // Set up clean activity tracking
+    let completedAgents = 0;
+    
+    // Initialize all agent activities as pending (drill-down layers go on top, newest first)
+    const pendingActivities = agents.map((_, i) => ({
+      id: activityId(i),
+      title: layer === 1 ? `Agent ${i + 1}: ${layerTasks[i].task}` : `Layer ${layer} · Agent ${i + 1}: ${layerTasks[i].task}`,
+      content: `Waiting to start...`,
+      timestamp: this.timestamp(),
+      type: 'processing',
+      progress: 0,
+      status: 'pending'
+    }));
+    if (layer === 1) {
+      activityUpdates.push(...pendingActivities);
+    } else {
+      activityUpdates.unshift(...pendingActivities);
+    }
+
+    // Send initial setup with all pending agents
+    onProgress({
+      stage: layer === 1 ? 'Initializing Research Agents' : `Starting Layer ${layer} Drill-Down`,
+      query: query,
+      layer: layer,
+      sources_found: allStreamingSources.length,
+      total_sources: allStreamingSources.length,
+      progress_percent: Math.round(progressBase),
       completed: false,
       error: null,
       final_result: null,
       activity_updates: [...activityUpdates],
-      streaming_sources: []
+      streaming_sources: [...allStreamingSources]
     });
 
     // Execute agents in parallel for speed (they have independent search spaces)
-    console.log('🚀 Starting parallel agent execution...');
+    console.log(`🚀 Starting parallel agent execution for layer ${layer}...`);
     
     const agentPromises = agents.map(async (agent, i) => {
-      const task = tasks[i];
+      const { task, queries } = layerTasks[i];
       
       // Mark this agent as active and start its progress
-      const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === `agent_${i + 1}`);
+      const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === activityId(i));
       if (agentActivityIndex !== -1) {
         activityUpdates[agentActivityIndex] = {
           ...activityUpdates[agentActivityIndex],
@@ -1308,12 +2823,12 @@ class LeadResearcher {
       // Send progress update when agent starts with overall status
       const activeAgents = activityUpdates.filter(a => a.status === 'active' && a.id.startsWith('agent_')).length;
       onProgress({
-        stage: `Agents Researching (${activeAgents} active)`,
+        stage: `Layer ${layer}: Agents Researching (${activeAgents} active)`,
         query: query,
-        layer: 1,
+        layer: layer,
         sources_found: allStreamingSources.length,
         total_sources: allStreamingSources.length,
-        progress_percent: Math.round((completedAgents / agents.length) * 80), // Clean progress based on completed agents
+        progress_percent: Math.round(progressBase + (completedAgents / agents.length) * progressSpan), // Clean progress based on completed agents
         completed: false,
         error: null,
         final_result: null,
@@ -1324,7 +2839,7 @@ class LeadResearcher {
       try {
         const result = await agent.executeTask(query, task, (agentUpdate) => {
           // Update individual agent progress bar during execution
-          const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === `agent_${i + 1}`);
+          const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === activityId(i));
           
           // Handle real-time source updates from agents
           if (agentUpdate.streaming_sources) {
@@ -1336,15 +2851,16 @@ class LeadResearcher {
                   domain: source.domain,
                   url: source.url,
                   snippet: source.snippet,
-                  task_id: `agent_${i + 1}`,
-                  agent_id: `agent_${i + 1}`,
-                  timestamp: new Date().toISOString()
+                  task_id: activityId(i),
+                  agent_id: activityId(i),
+                  layer: layer,
+                  timestamp: this.timestamp()
                 });
               }
             });
 
             // Update THIS agent's individual progress and content
-            const agentSources = allStreamingSources.filter(s => s.agent_id === `agent_${i + 1}`);
+            const agentSources = allStreamingSources.filter(s => s.agent_id === activityId(i));
             if (agentActivityIndex !== -1) {
               activityUpdates[agentActivityIndex] = {
                 ...activityUpdates[agentActivityIndex],
@@ -1357,12 +2873,12 @@ class LeadResearcher {
             // Send real-time updates with overall "Agents Researching" status
             const activeAgents = activityUpdates.filter(a => a.status === 'active' && a.id.startsWith('agent_')).length;
             onProgress({
-              stage: `Agents Researching (${activeAgents} active)`,
+              stage: `Layer ${layer}: Agents Researching (${activeAgents} active)`,
               query: query,
-              layer: 1,
+              layer: layer,
               sources_found: allStreamingSources.length,
               total_sources: allStreamingSources.length,
-              progress_percent: Math.round((completedAgents / agents.length) * 80), // Keep main progress steady
+              progress_percent: Math.round(progressBase + (completedAgents / agents.length) * progressSpan), // Keep main progress steady
               completed: false,
               error: null,
               final_result: null,
@@ -1370,11 +2886,11 @@ class LeadResearcher {
               streaming_sources: [...allStreamingSources]
             });
           }
-        });
+        }, { layer, queries, targetSources: sourcesPerAgent, search: this.searchSettings, documents: this.documents, documentsOnly: this.documentsOnly, signal: this.signal });
         
         // Mark agent as completed and increment counter
         completedAgents++;
-        const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === `agent_${i + 1}`);
+        const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === activityId(i));
         if (agentActivityIndex !== -1) {
           activityUpdates[agentActivityIndex] = {
             ...activityUpdates[agentActivityIndex],
@@ -1388,12 +2904,12 @@ class LeadResearcher {
         // Send clean progress update when agent completes
         const remainingActive = activityUpdates.filter(a => a.status === 'active' && a.id.startsWith('agent_')).length;
         onProgress({
-          stage: completedAgents === agents.length ? 'Agent Research Complete' : `Agents Researching (${remainingActive} active)`,
+          stage: completedAgents === agents.length ? `Layer ${layer} Research Complete` : `Layer ${layer}: Agents Researching (${remainingActive} active)`,
           query: query,
-          layer: 1,
+          layer: layer,
           sources_found: allStreamingSources.length,
           total_sources: allStreamingSources.length,
-          progress_percent: Math.round((completedAgents / agents.length) * 80), // Clean step-wise progress
+          progress_percent: Math.round(progressBase + (completedAgents / agents.length) * progressSpan), // Clean step-wise progress
           completed: false,
           error: null,
           final_result: null,
@@ -1401,26 +2917,49 @@ class LeadResearcher {
           streaming_sources: [...allStreamingSources]
         });
 
-        console.log(`Agent ${i + 1} completed with ${result.sources.length} sources`);
+        console.log(`Layer ${layer} agent ${i + 1} completed with ${result.sources.length} sources`);
         return result;
         
       } catch (error) {
-        console.error(`Agent ${i + 1} failed:`, error);
+        // A stopped agent keeps whatever it had collected so the cancelled report can list it
+        if (isAbortError(error)) {
+          const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === activityId(i));
+          if (agentActivityIndex !== -1) {
+            activityUpdates[agentActivityIndex] = {
+              ...activityUpdates[agentActivityIndex],
+              content: `⏹ Stopped after ${agent.collectedSources.length} sources`,
+              type: 'error',
+              status: 'failed'
+            };
+          }
+          return {
+            specialization: task,
+            sources: [...agent.collectedSources],
+            findings: '',
+            confidence_gaps: [],
+            queries_used: queries || []
+          };
+        }
+
+        console.error(`Layer ${layer} agent ${i + 1} failed:`, error);
         
         // Check for specific error types for better user feedback
         const errorMessage = error instanceof Error ? error.message : String(error);
+        this.failures.push({ stage: 'agent', agent: agent.agentName, layer, message: errorMessage });
         const isRateLimit = errorMessage.includes('rate limit') || errorMessage.includes('429');
         const isCreditsExhausted = errorMessage.includes('credits exhausted') || errorMessage.includes('402');
         
-        const errorResult = {
+        const errorResult: AgentResult = {
+          specialization: task,
           sources: [],
           findings: `Agent ${i + 1} failed: ${errorMessage}`,
-          confidence_gaps: ['Agent execution failed']
+          confidence_gaps: ['Agent execution failed'],
+          queries_used: []
         };
 
         // Mark agent as failed and increment counter (failed agents still count toward completion)
         completedAgents++;
-        const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === `agent_${i + 1}`);
+        const agentActivityIndex = activityUpdates.findIndex(activity => activity.id === activityId(i));
         if (agentActivityIndex !== -1) {
           activityUpdates[agentActivityIndex] = {
             ...activityUpdates[agentActivityIndex],
@@ -1434,12 +2973,12 @@ class LeadResearcher {
         // Send clean progress update when agent fails
         const remainingActive = activityUpdates.filter(a => a.status === 'active' && a.id.startsWith('agent_')).length;
         onProgress({
-          stage: completedAgents === agents.length ? 'Agent Research Complete (with errors)' : `Agents Researching (${remainingActive} active)`,
+          stage: completedAgents === agents.length ? `Layer ${layer} Research Complete (with errors)` : `Layer ${layer}: Agents Researching (${remainingActive} active)`,
           query: query,
-          layer: 1,
+          layer: layer,
           sources_found: allStreamingSources.length,
           total_sources: allStreamingSources.length,
-          progress_percent: Math.round((completedAgents / agents.length) * 80), // Still advance progress
+          progress_percent: Math.round(progressBase + (completedAgents / agents.length) * progressSpan), // Still advance progress
           completed: false,
           error: null,
           final_result: null,
@@ -1452,149 +2991,153 @@ class LeadResearcher {
     });
 
     // Wait for all agents to complete in parallel
-    agentResults.push(...await Promise.all(agentPromises));
+    return await Promise.all(agentPromises);
+  }
 
-    // Collect all sources
-    const allSources = agentResults.flatMap(result => result.sources);
-    console.log(`Total sources collected: ${allSources.length}`);
+  private async planNextLayer(
+    query: string,
+    layer: number,
+    previousLayer: LayerSummary,
+    agentResults: AgentResult[]
+  ): Promise<LayerTask[]> {
+    const collectedTitles = agentResults
+      .flatMap(result => result.sources)
+      .slice(0, 40)
+      .map(source => `- ${source.title} (${source.domain})`)
+      .join('\n');
 
-    // Check if research should be halted due to critical errors
-    const failedAgents = agentResults.filter(result => result.sources.length === 0);
-    const criticalErrors = agentResults.filter(result => 
-      result.findings.includes('credits exhausted') || result.findings.includes('402')
-    );
-    
-    // If all agents failed due to credit exhaustion, don't proceed with synthesis
-    if (criticalErrors.length === agentResults.length && allSources.length === 0) {
-      const errorMessage = 'Research cannot continue: Exa API credits have been exhausted. Please top up your account at dashboard.exa.ai to continue using the service.';
-      
-      // Send error update
-      onProgress({
-        stage: 'Research Failed',
-        query: query,
-        layer: 1,
-        sources_found: 0,
-        total_sources: 0,
-        progress_percent: 100,
-        completed: true,
-        error: errorMessage,
-        final_result: null,
-        activity_updates: [...activityUpdates],
-        streaming_sources: [...allStreamingSources]
-      });
-      
-      throw new Error(errorMessage);
-    }
+    try {
+      const response = await this.llmService.chat(
+        `You are planning layer ${layer} of a multi-layer research project. Each layer drills deeper into what the previous layer found.
 
-    // Add synthesis task at TOP (newest first) ONLY after all agents complete
-    activityUpdates.unshift({
-      id: 'synthesis',
-      title: 'Report Generation',
-      content: `Analyzing ${allSources.length} sources`,
-      timestamp: new Date().toISOString(),
-      type: 'processing',
-      progress: 0,
-      status: 'active'
-    });
+Query: "${query}"
 
-    onProgress({
-      stage: 'Starting Report Generation',
-      query: query,
-      layer: 1,
-      sources_found: allSources.length,
-      total_sources: allSources.length,
-      progress_percent: 80, // Agents complete = 80%, now starting synthesis
-      completed: false,
-      error: null,
-      final_result: null,
-      activity_updates: [...activityUpdates],
-      streaming_sources: [...allStreamingSources]
-    });
+LAYER ${previousLayer.layer} KEY FINDINGS:
+${previousLayer.key_findings}
 
-    // Create synthesis with progress updates
-    const synthesisIndex = activityUpdates.findIndex(activity => activity.id === 'synthesis');
-    
-    // Update progress during synthesis
-    if (synthesisIndex !== -1) {
-      activityUpdates[synthesisIndex] = {
-        ...activityUpdates[synthesisIndex],
-        content: `Processing research data...`,
-        progress: 25,
-        status: 'active'
-      };
-    }
+OPEN QUESTIONS AND GAPS:
+${previousLayer.confidence_gaps.length > 0 ? previousLayer.confidence_gaps.map(gap => `- ${gap}`).join('\n') : 'None recorded'}
 
-    onProgress({
-      stage: 'Processing Research Data',
-      query: query,
-      layer: 1,
-      sources_found: allSources.length,
-      total_sources: allSources.length,
-      progress_percent: 85,
-      completed: false,
-      error: null,
-      final_result: null,
-      activity_updates: [...activityUpdates],
-      streaming_sources: [...allStreamingSources]
-    });
+RESEARCH AGENTS:
+${agentResults.map((result, i) => `Agent ${i + 1} (${result.specialization}) - open gaps: ${result.confidence_gaps.length > 0 ? result.confidence_gaps.join('; ') : 'none'}`).join('\n')}
 
-    const { summary } = await this.synthesizeFindings(query, agentResults);
+SOURCES ALREADY COLLECTED (do not target these again):
+${collectedTitles || 'None'}
 
-    // Mark synthesis as completed
-    if (synthesisIndex !== -1) {
-      activityUpdates[synthesisIndex] = {
-        ...activityUpdates[synthesisIndex],
-        content: `✓ Report generated successfully`,
-        type: 'complete',
-        progress: 100,
-        status: 'completed'
-      };
+For EACH agent, define a narrower drill-down focus and 2-3 specific web search queries that follow up on the findings and close the gaps above. Queries must be concrete (names, mechanisms, figures, dates) rather than generic.
+
+Respond with JSON only in exactly this format:
+{
+  "agents": [
+    { "agent": 1, "focus": "short description of the drill-down focus", "queries": ["query one", "query two"] }
+  ]
+}`,
+        `You are a research planner who turns findings and gaps into precise follow-up searches. Respond with valid JSON only.`,
+        this.signal
+      );
+
+      const plan = parseJsonResponse<{ agents?: Array<{ agent?: number; focus?: string; queries?: string[] }> }>(response);
+      const planned = agentResults.map((result, i) => {
+        const entry = plan?.agents?.find(a => a.agent === i + 1) || plan?.agents?.[i];
+        const queries = (entry?.queries || []).filter(q => typeof q === 'string' && q.trim()).slice(0, 3);
+        return queries.length > 0
+          ? { task: entry?.focus?.trim() || `Drill-down: ${result.specialization}`, queries }
+          : null;
+      });
+
+      if (planned.every(task => task !== null)) {
+        console.log(`🧭 Layer ${layer} plan:`, planned);
+        return planned as LayerTask[];
+      }
+
+      console.warn(`⚠️ Layer ${layer} plan incomplete, filling gaps with fallback queries`);
+      return planned.map((task, i) => task || this.fallbackLayerTask(query, agentResults[i]));
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error(`❌ Layer ${layer} planning failed, using fallback queries:`, error);
+      return agentResults.map(result => this.fallbackLayerTask(query, result));
     }
+  }
 
-    const researchTime = (Date.now() - startTime) / 1000;
-    
-    // Show final model usage status
-    console.log(`\n🏁 Research completed in ${researchTime.toFixed(1)}s`);
-    this.logModelUsage('Research Complete');
+  private fallbackLayerTask(query: string, agentResult: AgentResult): LayerTask {
+    // Follow the agent's open gaps when it has any, otherwise dig into its specialization
+    const queries = agentResult.confidence_gaps
+      .filter(gap => gap !== 'Agent execution failed')
+      .slice(0, 3)
+      .map(gap => `${query} ${gap}`);
 
-    const result: ResearchResult = {
-      original_query: query,
-      topic_type: 'general',
-      layer_summaries: [{
-        layer: 1,
-        description: 'Multi-agent research',
-        sources_found: allSources.length,
-        key_findings: summary.substring(0, 500),
-        confidence_gaps: [],
-        queries_used: tasks
-      }],
-      all_sources: allSources,
-      final_synthesis: summary,
-      total_sources: allSources.length,
-      research_time: researchTime,
-      timestamp: new Date().toISOString(),
-      status: 'completed'
+    return {
+      task: `Drill-down: ${agentResult.specialization}`,
+      queries: queries.length > 0
+        ? queries
+        : [`${query} ${agentResult.specialization.toLowerCase()} in-depth analysis`, `${query} ${agentResult.specialization.toLowerCase()} case studies evidence`]
     };
+  }
 
-    // Send final completion update
-    onProgress({
-      stage: 'Complete',
-      query: query,
-      layer: 1,
-      sources_found: allSources.length,
-      total_sources: allSources.length,
-      progress_percent: 100,
-      completed: true,
-      error: null,
-      final_result: result,
-      activity_updates: [...activityUpdates],
-      streaming_sources: [...allStreamingSources]
-    });
+  private async summarizeLayer(
+    query: string,
+    layer: number,
+    layerTasks: LayerTask[],
+    layerResults: AgentResult[]
+  ): Promise<LayerSummary> {
+    const layerSources = layerResults.flatMap(result => result.sources);
+    const confidenceGaps = [...new Set(layerResults.flatMap(result => result.confidence_gaps))];
+    const queriesUsed = layerResults.flatMap(result => result.queries_used);
+    const description = layer === 1
+      ? `Initial multi-agent research across ${layerTasks.length} specializations`
+      : `Drill-down: ${layerTasks.map(t => t.task).join('; ')}`;
+
+    let keyFindings = layerSources.length > 0
+      ? layerSources.slice(0, 5).map(source => `${source.title} (${source.domain})`).join('; ')
+      : 'No sources found in this layer';
+
+    if (layerSources.length > 0) {
+      const systemPrompt = `You write tight, factual research summaries with no preamble.`;
+      const renderPrompt = (agentFindings: string, sourceExcerpts: string) => `Summarize the key findings of research layer ${layer} for the query "${query}" in at most 150 words. State concrete facts, figures and names; do not describe the research process.
+
+AGENT FINDINGS:
+${agentFindings}
+
+SOURCE EXCERPTS:
+${sourceExcerpts}`;
+
+      // Findings and source excerpts split the prompt budget, each keeping the passages most relevant to the query
+      const dataBudget = Math.floor((this.llmService.promptBudget(systemPrompt) - countTokens(renderPrompt('', ''))) / 2);
+      const agentFindings = packDocuments(
+        layerResults.map((result, i) => ({ header: `Agent ${i + 1} (${layerTasks[i].task}):`, text: result.findings })),
+        query,
+        dataBudget
+      );
+      const sourceExcerpts = packDocuments(
+        layerSources.slice(0, 12).map(source => ({ header: `• ${source.title} (${source.domain}):`, text: source.content || '' })),
+        query,
+        dataBudget,
+        '\n'
+      );
 
-    return result;
+      try {
+        keyFindings = (await this.llmService.chat(renderPrompt(agentFindings, sourceExcerpts), systemPrompt, this.signal)).trim();
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.error(`❌ Layer ${layer} summary failed, using source list:`, error);
+      }
+    }
+
+    return {
+      layer,
+      description,
+      sources_found: layerSources.length,
+      key_findings: keyFindings,
+      confidence_gaps: confidenceGaps,
+      queries_used: queriesUsed
+    };
   }
 
-  private async synthesizeFindings(query: string, agentResults: any[]): Promise<{
+  private async synthesizeFindings(query: string, agentResults: any[], run: ResearchRunState): Promise<{
     summary: string;
     sources: any[];
     total_sources: number;
@@ -1606,21 +3149,26 @@ class LeadResearcher {
     const totalWords = allSources.reduce((sum, source) => sum + source.word_count, 0);
     let callCount = 0;
 
+    // Citation numbers follow all_sources order, so [n] always maps to all_sources[n - 1]
+    const citationNumbers = new Map<string, number>(allSources.map((source, index) => [source.url, index + 1]));
+
     console.log(`🔬 Starting STRUCTURED synthesis for ${allSources.length} sources`);
 
     try {
-      // STEP 1: Master Planning LLM creates the report structure
-      callCount++;
-      const structurePlan = await this.cerebrasService.chat(
-        `You are a Master Research Architect. Your job is to create a detailed, NON-OVERLAPPING report structure.
+      // STEP 1: Master Planning LLM creates the report structure around whatever roster ran
+      const agentNumbers = agentResults.map((_, index) => index + 1);
+      let reportPlan = run.reportPlan;
+      if (reportPlan) {
+        console.log(`♻️ Resuming from saved report plan: ${run.sectionDrafts.length}/${reportPlan.sections.length} sections already written`);
+      } else {
+        callCount++;
+        const structurePlan = await this.llmService.chat(
+          `You are a Master Research Architect. Your job is to create a detailed, NON-OVERLAPPING report structure.
 
 Query: "${query}"
 
 Available research data:
-- Agent 1 (Core concepts & fundamentals): ${agentResults[0]?.sources?.length || 0} sources
-- Agent 2 (Latest developments & breakthroughs): ${agentResults[1]?.sources?.length || 0} sources  
-- Agent 3 (Key players, companies & market): ${agentResults[2]?.sources?.length || 0} sources
-- Agent 4 (Future implications & trends): ${agentResults[3]?.sources?.length || 0} sources
+${agentResults.map((result, index) => `- Agent ${index + 1} (${result.specialization}): ${result.sources?.length || 0} sources`).join('\n')}
 
 Create a JSON structure for a comprehensive report with EXACTLY this format:
 {
@@ -1632,140 +3180,106 @@ Create a JSON structure for a comprehensive report with EXACTLY this format:
       "purpose": "Brief high-level overview of key findings only",
       "mustInclude": ["3-4 most important findings", "key numbers/metrics", "main conclusion"],
       "mustAvoid": ["detailed explanations", "repetition of other sections"],
-      "agentDataToUse": [1, 2, 3, 4],
+      "agentDataToUse": [${agentNumbers.join(', ')}],
       "wordTarget": 200
     },
     {
-      "id": "current_state",
-      "title": "Current State & Recent Developments",
-      "purpose": "What's happening NOW - latest breakthroughs and developments",
-      "mustInclude": ["specific recent developments", "breakthrough technologies", "current research"],
-      "mustAvoid": ["background concepts", "future predictions", "market analysis"],
-      "agentDataToUse": [2],
-      "wordTarget": 400
-    },
-    {
-      "id": "technical_deep_dive", 
-      "title": "Technical Analysis & Core Concepts",
-      "purpose": "Deep technical understanding of HOW things work",
-      "mustInclude": ["technical mechanisms", "scientific principles", "methodologies"],
-      "mustAvoid": ["market info", "company names", "future speculation"],
+      "id": "section_id",
+      "title": "Section title specific to this query",
+      "purpose": "The single distinct question this section answers",
+      "mustInclude": ["specific content this section must cover"],
+      "mustAvoid": ["content that belongs to other sections"],
       "agentDataToUse": [1],
       "wordTarget": 350
     },
-    {
-      "id": "market_players",
-      "title": "Industry Landscape & Key Players", 
-      "purpose": "WHO is involved and market dynamics",
-      "mustInclude": ["specific companies", "investments", "partnerships", "market size"],
-      "mustAvoid": ["technical details", "how technology works", "future trends"],
-      "agentDataToUse": [3],
-      "wordTarget": 350
-    },
-    {
-      "id": "future_implications",
-      "title": "Future Outlook & Strategic Implications",
-      "purpose": "WHERE this is heading and what it means",
-      "mustInclude": ["future applications", "timeline predictions", "strategic implications"],
-      "mustAvoid": ["current state info", "technical explanations", "company details"],
-      "agentDataToUse": [4],
-      "wordTarget": 350
-    },
     {
       "id": "conclusion",
       "title": "Key Insights & Recommendations",
       "purpose": "SYNTHESIS - what does it all mean together",
       "mustInclude": ["synthesized insights", "actionable recommendations", "strategic takeaways"],
       "mustAvoid": ["repeating previous sections", "new information"],
-      "agentDataToUse": [1, 2, 3, 4],
+      "agentDataToUse": [${agentNumbers.join(', ')}],
       "wordTarget": 250
     }
   ]
 }
 
-CRITICAL: Each section must have a DISTINCT purpose with NO overlap. Each focuses on different aspects (WHAT/HOW/WHO/WHERE/WHY).`,
-        `You are a Master Research Architect who creates detailed, non-overlapping report structures. Respond with valid JSON only.`
-      );
+Between the executive summary and the conclusion, add 3-6 body sections shaped by the agents' specializations above. Every agent's data must be used by at least one body section; "agentDataToUse" may only contain agent numbers ${agentNumbers.join(', ')}.
 
-      let reportPlan;
-      try {
-        reportPlan = JSON.parse(structurePlan);
-      } catch (e) {
-        console.error('❌ Failed to parse structure plan, using fallback');
-        // Robust fallback structure
-        reportPlan = {
-          reportTitle: '',
-          sections: [
-            {
-              id: "executive_summary",
-              title: "Executive Summary",
-              purpose: "Brief overview of key findings",
-              mustInclude: ["Top 3 findings", "Key metrics", "Main insight"],
-              mustAvoid: ["Details", "Repetition"],
-              agentDataToUse: [1, 2, 3, 4],
-              wordTarget: 200
-            },
-            {
-              id: "recent_breakthroughs", 
-              title: "Recent Breakthroughs & Developments",
-              purpose: "Latest advances and innovations",
-              mustInclude: ["Specific breakthroughs", "New technologies", "Recent research"],
-              mustAvoid: ["Background", "Market info", "Future predictions"],
-              agentDataToUse: [2],
-              wordTarget: 400
-            },
-            {
-              id: "technical_analysis",
-              title: "Technical Analysis & Methodologies",
-              purpose: "How the technology works",
-              mustInclude: ["Technical mechanisms", "Scientific methods", "Core principles"],
-              mustAvoid: ["Companies", "Markets", "Timeline predictions"],
-              agentDataToUse: [1],
-              wordTarget: 350
-            },
-            {
-              id: "industry_landscape",
-              title: "Industry Players & Market Dynamics", 
-              purpose: "Key companies and market forces",
-              mustInclude: ["Leading companies", "Investments", "Market trends"],
-              mustAvoid: ["Technical details", "Future speculation"],
-              agentDataToUse: [3],
-              wordTarget: 350
-            },
-            {
-              id: "future_outlook",
-              title: "Future Implications & Strategic Outlook",
-              purpose: "Where this is heading",
-              mustInclude: ["Future applications", "Strategic implications", "Timeline"],
-              mustAvoid: ["Current developments", "Company details"],
-              agentDataToUse: [4],
-              wordTarget: 350
-            },
-            {
-              id: "strategic_insights",
-              title: "Strategic Insights & Recommendations", 
-              purpose: "Actionable business recommendations and investment strategies",
-              mustInclude: ["Specific investment recommendations", "Market timing insights", "Partnership opportunities", "Risk mitigation strategies", "Competitive positioning advice"],
-              mustAvoid: ["Technical explanations", "Restating previous content", "Generic business advice"],
-              agentDataToUse: [2, 3, 4],
-              wordTarget: 350
-            }
-          ]
-        };
-      }
+CRITICAL: Each section must have a DISTINCT purpose with NO overlap.`,
+          `You are a Master Research Architect who creates detailed, non-overlapping report structures. Respond with valid JSON only.`,
+          this.signal
+        );
+
+        reportPlan = parseJsonResponse<ReportPlan>(structurePlan) || undefined;
+        if (!reportPlan || !Array.isArray(reportPlan.sections) || reportPlan.sections.length === 0) {
+          console.error('❌ Failed to parse structure plan, using fallback');
+          // Robust fallback structure: one body section per agent
+          reportPlan = {
+            reportTitle: '',
+            sections: [
+              {
+                id: "executive_summary",
+                title: "Executive Summary",
+                purpose: "Brief overview of key findings",
+                mustInclude: ["Top 3 findings", "Key metrics", "Main insight"],
+                mustAvoid: ["Details", "Repetition"],
+                agentDataToUse: agentNumbers,
+                wordTarget: 200
+              },
+              ...agentResults.map((result, index) => ({
+                id: `agent_${index + 1}_section`,
+                title: result.specialization,
+                purpose: `Findings on: ${result.specialization}`,
+                mustInclude: ["Specific facts and figures", "Named entities", "Evidence from sources"],
+                mustAvoid: ["Topics covered by other sections", "Generic background"],
+                agentDataToUse: [index + 1],
+                wordTarget: 350
+              })),
+              {
+                id: "strategic_insights",
+                title: "Strategic Insights & Recommendations", 
+                purpose: "Actionable recommendations drawn from all findings",
+                mustInclude: ["Synthesized insights", "Actionable recommendations", "Risks and open questions"],
+                mustAvoid: ["Restating previous content", "Generic advice"],
+                agentDataToUse: agentNumbers,
+                wordTarget: 300
+              }
+            ]
+          };
+        }
+
+        // Guard against sections referencing agents that did not run
+        reportPlan.sections = reportPlan.sections.map(section => {
+          const agentData = (Array.isArray(section.agentDataToUse) ? section.agentDataToUse : [])
+            .filter((n: number) => agentNumbers.includes(n));
+          return {
+            ...section,
+            mustInclude: Array.isArray(section.mustInclude) ? section.mustInclude : [],
+            mustAvoid: Array.isArray(section.mustAvoid) ? section.mustAvoid : [],
+            agentDataToUse: agentData.length > 0 ? agentData : agentNumbers,
+            wordTarget: section.wordTarget || 300
+          };
+        });
 
-      console.log(`📋 Report structure planned: "${reportPlan.reportTitle}" with ${reportPlan.sections.length} sections`);
+        console.log(`📋 Report structure planned: "${reportPlan.reportTitle}" with ${reportPlan.sections.length} sections`);
+        run.reportPlan = reportPlan;
+        this.checkpoint(run, 'report_plan');
+      }
 
       // STEP 2: Generate each section with specialized writers
-      const generatedSections: string[] = [];
-      const previousSections: string[] = []; // Track what's been written to avoid repetition
-      const mentionedFacts: Set<string> = new Set(); // Track specific facts/companies/stats mentioned
+      const generatedSections = run.sectionDrafts; // Kept on the run so finished sections survive a failure or resume
+      const previousSections = generatedSections.map(section => section.replace(/^## [^\n]*\n\n/, '')); // Track what's been written to avoid repetition
+      const mentionedFacts: Set<string> = new Set(run.mentionedFacts); // Track specific facts/companies/stats mentioned
       
-      for (let i = 0; i < reportPlan.sections.length; i++) {
+      for (let i = generatedSections.length; i < reportPlan.sections.length; i++) {
         const section = reportPlan.sections[i];
         callCount++;
         
-        // Prepare relevant agent data for this section (optimized for context limits)
+        // Passages are chosen by their relevance to the section's purpose
+        const sectionFocus = `${section.title} ${section.purpose} ${section.mustInclude.join(' ')}`;
+
+        // Prepare relevant agent data for this section
         const relevantData = section.agentDataToUse.map((agentIndex: number) => {
           const agentResult = agentResults[agentIndex - 1];
           if (!agentResult) return null;
@@ -1773,18 +3287,21 @@ CRITICAL: Each section must have a DISTINCT purpose with NO overlap. Each focuse
           return {
             agentNumber: agentIndex,
             specialization: agentResult.specialization || `Agent ${agentIndex}`,
-            findings: agentResult.findings?.substring(0, 600) || '', // Reduced from 1000
-            topSources: agentResult.sources?.slice(0, 4).map((s: any) => ({ // Reduced from 8 to 4
+            findings: citeFindings(agentResult.findings || '', citationNumbers),
+            topSources: agentResult.sources?.slice(0, 4).map((s: ResearchSource) => ({
+              citation: citationNumbers.get(s.url),
               title: s.title,
               domain: s.domain,
-              snippet: s.content?.substring(0, 200) || '' // Reduced from 300 to 200
+              // Prefer extracted claims over raw opening text
+              snippet: s.findings?.claims.length
+                ? s.findings.claims.slice(0, 2).join(' ')
+                : packText(s.content || '', sectionFocus, SECTION_SNIPPET_TOKENS)
             })) || []
           };
         }).filter((data: null): data is NonNullable<typeof data> => data !== null);
 
-        // Create section with specific constraints
-        const sectionContent = await this.cerebrasService.chat(
-          `You are a SPECIALIZED SECTION WRITER for "${section.title}".
+        const sectionSystemPrompt = `You are a specialized section writer. You write ONLY the assigned section with no overlap or repetition and NO headers.`;
+        const renderSectionPrompt = (availableData: string) => `You are a SPECIALIZED SECTION WRITER for "${section.title}".
 
 STRICT REQUIREMENTS:
 - Write ONLY the "${section.title}" section content
@@ -1798,16 +3315,10 @@ Query: "${query}"
 Section ${i + 1} of ${reportPlan.sections.length}
 
 AVAILABLE DATA:
-${relevantData.map((data: {agentNumber: number, specialization: string, findings: string, topSources: Array<{title: string, domain: string, snippet: string}>}) => `
-Agent ${data.agentNumber} (${data.specialization}):
-${data.findings}
-
-Key sources:
-${data.topSources.map((s: {title: string, domain: string, snippet: string}) => `• ${s.title} (${s.domain}): ${s.snippet}`).join('\n')}
-`).join('\n')}
+${availableData}
 
 PREVIOUS SECTIONS WRITTEN (DO NOT REPEAT ANY OF THIS):
-${previousSections.length > 0 ? previousSections.map((sec, idx) => `Section ${idx + 1} (first 400 chars): ${sec.substring(0, 400)}...`).join('\n\n') : 'Nothing yet - this is the first section'}
+${previousSections.length > 0 ? previousSections.map((sec, idx) => `Section ${idx + 1} (passages closest to this section): ${packText(sec, sectionFocus, PREVIOUS_SECTION_TOKENS)}`).join('\n\n') : 'Nothing yet - this is the first section'}
 
 FACTS/COMPANIES/STATS ALREADY MENTIONED (NEVER REPEAT THESE):
 ${mentionedFacts.size > 0 ? Array.from(mentionedFacts).slice(0, 25).join(', ') + (mentionedFacts.size > 25 ? `... and ${mentionedFacts.size - 25} more` : '') : 'None yet'}
@@ -1831,10 +3342,27 @@ WRITING RULES:
 7. Include specific numbers, dates, and company names where relevant
 8. ANALYZE TENSIONS: Where applicable, discuss competing approaches, tradeoffs, or strategic conflicts
 9. End naturally - no "in conclusion" phrases
+10. CITE EVERY CLAIM: put the source's bracketed number right after the claim it supports, e.g. "...grew 40% [3]." or "[2][5]". Only use numbers shown in AVAILABLE DATA; never cite by title
 
-Write the complete section content:`,
-          `You are a specialized section writer. You write ONLY the assigned section with no overlap or repetition and NO headers.`
-        );
+Write the complete section content:`;
+
+        // Share the tokens left after the instructions between the agents feeding this section,
+        // keeping the findings passages most relevant to the section's purpose
+        const dataBudget = this.llmService.promptBudget(sectionSystemPrompt) - countTokens(renderSectionPrompt(''));
+        const availableData = relevantData.map((data: {agentNumber: number, specialization: string, findings: string, topSources: Array<{citation?: number, title: string, domain: string, snippet: string}>}) => {
+          const keySources = data.topSources.map((s: {citation?: number, title: string, domain: string, snippet: string}) => `• [${s.citation}] ${s.title} (${s.domain}): ${s.snippet}`).join('\n');
+          const findingsBudget = Math.floor(dataBudget / relevantData.length) - countTokens(keySources) - 20;
+          return `
+Agent ${data.agentNumber} (${data.specialization}):
+${packText(data.findings, sectionFocus, Math.max(0, findingsBudget))}
+
+Key sources:
+${keySources}
+`;
+        }).join('\n');
+
+        // Create section with specific constraints
+        const sectionContent = await this.llmService.chat(renderSectionPrompt(availableData), sectionSystemPrompt, this.signal);
 
         // Clean and validate content for redundancy
         let cleanContent = sectionContent.trim();
@@ -1856,7 +3384,7 @@ Write the complete section content:`,
         // Pre-validation redundancy filter
         if (previousSections.length > 0 && mentionedFacts.size > 5) {
           callCount++;
-          const contentValidation = await this.cerebrasService.chat(
+          const contentValidation = await this.llmService.chat(
             `Clean this section content by removing redundant information, then return ONLY the cleaned content with NO explanations:
 
 SECTION CONTENT:
@@ -1865,8 +3393,9 @@ SECTION CONTENT:
 FACTS ALREADY MENTIONED (avoid repeating):
 ${Array.from(mentionedFacts).slice(0, 30).join(', ')}
 
-CRITICAL: Return ONLY the cleaned section content. NO explanations about what was removed or changed. NO meta-commentary. Just the final clean content that users will read.`,
-            `You return only cleaned content with no explanations about the cleaning process.`
+CRITICAL: Return ONLY the cleaned section content. NO explanations about what was removed or changed. NO meta-commentary. Keep every citation marker such as [3] attached to the text it supports. Just the final clean content that users will read.`,
+            `You return only cleaned content with no explanations about the cleaning process.`,
+            this.signal
           );
           
           cleanContent = contentValidation.trim();
@@ -1878,7 +3407,7 @@ CRITICAL: Return ONLY the cleaned section content. NO explanations about what wa
 
         // Extract key facts to prevent repetition in future sections
         callCount++;
-        const extractedFacts = await this.cerebrasService.chat(
+        const extractedFacts = await this.llmService.chat(
           `Extract SPECIFIC claims that should NOT be repeated in future sections. Be comprehensive and include variations:
 
 "${cleanContent}"
@@ -1890,7 +3419,8 @@ TECHNOLOGIES: [specific product names, system names, technical terms]
 KEY_FACTS: [important statements, findings, claims that are factual]
 
 Example format: SPECIFIC_CLAIMS: IBM building 10,000-qubit computer by 2029, D-Wave's Advantage2 general availability | STATISTICS: 10,000 qubits, 2029 timeline, £500mn investment | TECHNOLOGIES: Advantage2, Zuchongzhi-3, Enchilada Trap | KEY_FACTS: fault-tolerant quantum computing achieved, quantum supremacy record broken`,
-          `You extract comprehensive facts to prevent any repetition. List variations and synonyms.`
+          `You extract comprehensive facts to prevent any repetition. List variations and synonyms.`,
+          this.signal
         );
 
         // Add extracted facts to the tracking set
@@ -1904,10 +3434,12 @@ Example format: SPECIFIC_CLAIMS: IBM building 10,000-qubit computer by 2029, D-W
         }
 
         console.log(`✅ Generated: ${section.title} (${cleanContent.length} chars, ${mentionedFacts.size} facts tracked)`);
+        run.mentionedFacts = Array.from(mentionedFacts);
+        this.checkpoint(run, 'section');
         
         // Minimal delay for faster synthesis
         if (i < reportPlan.sections.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 200));
+          await sleep(200, this.signal, this.env.clock);
         }
       }
 
@@ -1926,12 +3458,16 @@ Example format: SPECIFIC_CLAIMS: IBM building 10,000-qubit computer by 2029, D-W
       };
         
       } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
       console.error('❌ Structured synthesis failed:', error);
-      return await this.attemptSimpleSynthesis(query, allSources);
+      this.failures.push({ stage: 'synthesis', message: `Structured synthesis failed, used simple synthesis: ${error instanceof Error ? error.message : String(error)}` });
+      return await this.attemptSimpleSynthesis(query, allSources, run.roster?.agents || defaultRoster().agents);
       }
   }
 
-  private async attemptSimpleSynthesis(query: string, allSources: any[]): Promise<{
+  private async attemptSimpleSynthesis(query: string, allSources: any[], agents: ResearchRoster['agents']): Promise<{
     summary: string;
     sources: any[];
     total_sources: number;
@@ -1939,37 +3475,17 @@ Example format: SPECIFIC_CLAIMS: IBM building 10,000-qubit computer by 2029, D-W
     processing_calls: number;
     compression_ratio: string;
   }> {
-    // Create source summaries for single API call - respecting context limits
-    let sourceSummaries = allSources.map((source, index) => {
-      const content = source.content || 'No content available';
-      return `${index + 1}. **${source.title}** (${source.domain})\nCONTENT: ${content}`;
-    }).join('\n\n---\n\n');
-    
-    // Validate context size for simple synthesis
-    const summariesTokens = Math.ceil(sourceSummaries.length / 3.5);
-    const simplePromptOverhead = 1800; // Estimated tokens for simple synthesis prompt
-    const simpleTotalTokens = summariesTokens + simplePromptOverhead;
-    
-    if (simpleTotalTokens > 7500) {
-      console.log(`⚠️ Simple synthesis context too large: ${simpleTotalTokens} tokens, using per-source limits...`);
-      const maxContentPerSource = Math.floor((7500 - simplePromptOverhead) * 3.5 / allSources.length);
-      sourceSummaries = allSources.map((source, index) => {
-        const content = (source.content || '').substring(0, maxContentPerSource);
-        const truncated = content.length < (source.content || '').length;
-        return `${index + 1}. **${source.title}** (${source.domain})\nCONTENT: ${content}${truncated ? '...[TRUNCATED for context limits]' : ''}`;
-      }).join('\n\n---\n\n');
-    }
-
     const totalWords = allSources.reduce((sum, s) => sum + (s.word_count || 0), 0);
 
     // Use Multi-LLM approach for simple synthesis too
     console.log('🚀 Using Multi-LLM approach for comprehensive synthesis...');
-    return this.createMultiLLMSynthesis(query, allSources, [], [], 0, totalWords);
+    return this.createMultiLLMSynthesis(query, allSources, agents, [], [], 0, totalWords);
   }
 
   private async createMultiLLMSynthesis(
     query: string, 
     allSources: any[], 
+    agents: ResearchRoster['agents'],
     batchSyntheses: string[], 
     doNotExplain: string[], 
     callCount: number, 
@@ -1985,20 +3501,21 @@ Example format: SPECIFIC_CLAIMS: IBM building 10,000-qubit computer by 2029, D-W
     const allCoveredTerms = doNotExplain.join(', ');
     const sectionsContent = batchSyntheses.join('\n\n');
     
-    // Create condensed source list for each section
-    const sourcesList = allSources.map((source, index) => {
-      const content = (source.content || '').substring(0, 2000); // 2k chars per source for sections
-      return `${index + 1}. **${source.title}** (${source.domain})\n${content}...`;
-    }).join('\n\n');
+    // Sections that draw on source data get the passages most relevant to their focus, packed to the token budget
+    const sourceDocuments = allSources.map((source, index) => ({
+      header: `[${index + 1}] **${source.title}** (${source.domain})`,
+      text: source.content || ''
+    }));
 
     console.log('🚀 Starting Multi-LLM Parallel Synthesis...');
 
     // Define section prompts for parallel processing
-    const sectionPrompts = [
+    const sectionPrompts: Array<{ name: string; model: string; focus: string | null; prompt: (sourceData: string) => string }> = [
       {
         name: 'Executive Summary',
         model: 'llama-3.3-70b',
-        prompt: `Write a comprehensive Executive Summary for: "${query}"
+        focus: null,
+        prompt: () => `Write a comprehensive Executive Summary for: "${query}"
 
 **RESEARCH SECTIONS:**
 ${sectionsContent}
@@ -2008,43 +3525,22 @@ ${sectionsContent}
 **REQUIREMENTS:**
 - Write 1200-1500 words executive summary
 - Synthesize key findings from all research sections
-- Include major technical breakthroughs, market dynamics, and future outlook
-- **MANDATORY SOURCE CITATIONS**: Reference specific sources by title (e.g., "According to [Source Title]...")
+- Cover the main findings of every research area: ${agents.map(agent => agent.specialization).join('; ')}
+- **MANDATORY SOURCE CITATIONS**: Cite sources inline by their bracketed number right after each claim (e.g., "...grew 40% [3].")
 - Professional executive tone with strategic insights
 - DO NOT re-explain terms in the "DO NOT RE-EXPLAIN" list
 
 Write executive summary:`
       },
-      {
-        name: 'Technical Deep Dive',
-        model: 'llama-3.1-8b',
-        prompt: `Write a comprehensive Technical Analysis for: "${query}"
-
-**SOURCE DATA:**
-${sourcesList}
-
-**RESEARCH CONTEXT:**
-${sectionsContent}
-
-**DO NOT RE-EXPLAIN:** ${allCoveredTerms || 'None'}
-
-**REQUIREMENTS:**
-- Write 4000-5000 words technical deep dive
-- Focus on technical specifications, performance metrics, architectural details
-- Include specific numbers, benchmarks, and quantitative analysis
-- **MANDATORY SOURCE CITATIONS**: Reference specific sources by title throughout
-- Extract ALL technical details from sources
-- Advanced technical analysis since basics are established
-
-Write technical analysis:`
-      },
-      {
-        name: 'Market & Industry Analysis',
-        model: 'llama-4-scout-17b-16e-instruct',
-        prompt: `Write a comprehensive Market Analysis for: "${query}"
+      // One section per roster agent, so the report follows the research areas of this query
+      ...agents.map((agent, index) => ({
+        name: agent.name,
+        model: index % 2 === 0 ? 'llama-3.1-8b' : 'llama-4-scout-17b-16e-instruct',
+        focus: agent.specialization,
+        prompt: (sourceData: string) => `Write a comprehensive analysis of "${agent.specialization}" for: "${query}"
 
 **SOURCE DATA:**
-${sourcesList}
+${sourceData}
 
 **RESEARCH CONTEXT:**
 ${sectionsContent}
@@ -2052,22 +3548,23 @@ ${sectionsContent}
 **DO NOT RE-EXPLAIN:** ${allCoveredTerms || 'None'}
 
 **REQUIREMENTS:**
-- Write 3500-4500 words market and industry analysis
-- Focus on competitive landscape, market dynamics, business strategies
-- Include funding, partnerships, acquisitions, and market positioning
-- **MANDATORY SOURCE CITATIONS**: Reference specific sources by title throughout
-- Extract ALL business insights from sources
-- Professional market analysis tone
-
-Write market analysis:`
-      },
+- Write 3000-4000 words on this research area only: ${agent.specialization}
+- Include specific facts, figures, named entities, and quantitative evidence
+- Leave other research areas to their own sections: ${agents.filter(other => other !== agent).map(other => other.specialization).join('; ') || 'None'}
+- **MANDATORY SOURCE CITATIONS**: Cite sources inline by their bracketed number right after each claim (e.g., "[3]" or "[2][5]")
+- Extract ALL insights on this area from sources
+- Advanced analysis since basics are established
+
+Write ${agent.name} analysis:`
+      })),
       {
         name: 'Future Implications & Strategic Outlook',
         model: 'llama-3.3-70b',
-        prompt: `Write a comprehensive Future Analysis for: "${query}"
+        focus: 'future roadmap timeline predictions challenges opportunities outlook regulation',
+        prompt: sourceData => `Write a comprehensive Future Analysis for: "${query}"
 
 **SOURCE DATA:**
-${sourcesList}
+${sourceData}
 
 **RESEARCH CONTEXT:**
 ${sectionsContent}
@@ -2078,7 +3575,7 @@ ${sectionsContent}
 - Write 3000-4000 words future implications analysis
 - Focus on timeline predictions, roadmaps, strategic implications
 - Include challenges, opportunities, and long-term outlook
-- **MANDATORY SOURCE CITATIONS**: Reference specific sources by title throughout
+- **MANDATORY SOURCE CITATIONS**: Cite sources inline by their bracketed number right after each claim (e.g., "[3]" or "[2][5]")
 - Extract ALL future-oriented insights from sources
 - Strategic advisory tone with actionable insights
 
@@ -2087,17 +3584,18 @@ Write future analysis:`
       {
         name: 'Comprehensive Source Analysis',
         model: 'llama-3.1-8b',
-        prompt: `Create a comprehensive Source Analysis for: "${query}"
+        focus: null,
+        prompt: () => `Create a comprehensive Source Analysis for: "${query}"
 
 **ALL SOURCES:**
-${allSources.map((source, index) => `${index + 1}. **${source.title}** (${source.domain}) - ${source.word_count || 'N/A'} words`).join('\n')}
+${allSources.map((source, index) => `[${index + 1}] **${source.title}** (${source.domain}) - ${source.word_count || 'N/A'} words`).join('\n')}
 
 **REQUIREMENTS:**
 - Write 2000-2500 words source analysis
 - Analyze the quality, relevance, and credibility of each source
 - Group sources by domain and discuss their contributions
 - Include methodology assessment and source diversity analysis
-- Create comprehensive "Sources Referenced" section with detailed descriptions
+- Refer to sources by their bracketed number (e.g., [4]); a numbered reference list is appended automatically, so do not write one
 - Academic tone with critical source evaluation
 
 Write source analysis:`
@@ -2108,7 +3606,12 @@ Write source analysis:`
     const sectionPromises = sectionPrompts.map(async (section) => {
       try {
         console.log(`📝 Writing ${section.name} with ${section.model}...`);
-        const result = await this.cerebrasService.chat(section.prompt);
+        const sourceData = section.focus === null ? '' : packDocuments(
+          sourceDocuments,
+          `${query} ${section.focus}`,
+          this.llmService.promptBudget() - countTokens(section.prompt(''))
+        );
+        const result = await this.llmService.chat(section.prompt(sourceData), undefined, this.signal);
         callCount++;
         return {
           name: section.name,
@@ -2116,7 +3619,11 @@ Write source analysis:`
           model: section.model
         };
       } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
         console.error(`❌ Failed to write ${section.name}:`, error);
+        this.failures.push({ stage: 'section', message: `${section.name}: ${error instanceof Error ? error.message : String(error)}` });
         return {
           name: section.name,
           content: `# ${section.name}\n\n[Section failed to generate due to API issues. Please retry.]`,
@@ -2132,7 +3639,7 @@ Write source analysis:`
     const finalReport = `${completedSections.map(section => section.content).join('\n\n---\n\n')}`;
 
     // Validate source utilization across all sections
-    const sourceUtilization = this.validateSourceUtilization(finalReport, allSources);
+    const sourceUtilization = this.analyzeSourceUtilization(finalReport, allSources);
     
     console.log('✅ Multi-LLM Synthesis Complete!');
     console.log(`📊 Final report: ~${Math.round(finalReport.length / 5)} words across ${completedSections.length} sections`);
@@ -2143,38 +3650,144 @@ Write source analysis:`
       total_sources: allSources.length,
       total_words: totalWords,
       processing_calls: callCount + completedSections.length,
-      compression_ratio: `Multi-LLM synthesis: ${completedSections.length} sections, ${doNotExplain.length} terms established. Source utilization: ${sourceUtilization.utilizationScore}% (${sourceUtilization.sourcesUsed}/${allSources.length} sources referenced)`
+      compression_ratio: `Multi-LLM synthesis: ${completedSections.length} sections, ${doNotExplain.length} terms established. Source utilization: ${Math.round(sourceUtilization.utilizationScore * 100)}% (${sourceUtilization.sourcesUsed}/${allSources.length} sources referenced)`
     };
   }
 
-  private validateSourceUtilization(synthesis: string, allSources: any[]): {
-    utilizationScore: number;
-    sourcesUsed: number;
-    totalSources: number;
-    unusedSources: string[];
-  } {
-    let sourcesUsed = 0;
-    const unusedSources: string[] = [];
-    
-    for (const source of allSources) {
-      const title = source.title || '';
-      const domain = source.domain || '';
-      
-      // Check if source is referenced by title or domain in the synthesis
-      const titleReferenced = title && synthesis.toLowerCase().includes(title.toLowerCase().substring(0, 20));
-      const domainReferenced = domain && synthesis.toLowerCase().includes(domain.toLowerCase());
-      
-      if (titleReferenced || domainReferenced) {
-        sourcesUsed++;
-      } else {
-        unusedSources.push(`${title} (${domain})`);
+  private async verifyClaims(report: string, allSources: ResearchSource[]): Promise<ClaimVerification[]> {
+    const claims = splitIntoClaims(report).slice(0, MAX_VERIFIED_CLAIMS);
+    if (claims.length === 0 || allSources.length === 0) return [];
+
+    console.log(`🔎 Verifying ${claims.length} claims against ${allSources.length} sources`);
+
+    // Pre-split every source into passages once
+    const passages = allSources.flatMap((source, index) =>
+      splitIntoPassages(source.content || '').map(text => ({ source: index + 1, text }))
+    );
+
+    const verifications: ClaimVerification[] = [];
+
+    for (let i = 0; i < claims.length; i += VERIFICATION_BATCH_SIZE) {
+      const batch = claims.slice(i, i + VERIFICATION_BATCH_SIZE).map(claim => {
+        const citations = extractCitationNumbers(claim).filter(n => n >= 1 && n <= allSources.length);
+        const plainClaim = stripMarkdown(claim);
+        // Prefer passages from the cited sources; fall back to the whole collection
+        const candidates = citations.length > 0 ? passages.filter(p => citations.includes(p.source)) : passages;
+        const evidence = rankPassages(plainClaim, candidates.length > 0 ? candidates : passages).slice(0, 3);
+        return { claim, plainClaim, citations, evidence };
+      });
+
+      try {
+        const response = await this.llmService.chat(
+          `Verify each claim strictly against the evidence passages given for it.
+
+${batch.map((item, index) => `CLAIM ${index + 1}: ${item.plainClaim}
+EVIDENCE:
+${item.evidence.length > 0 ? item.evidence.map(e => `[${e.source}] ${e.text}`).join('\n') : 'No relevant passages found'}`).join('\n\n---\n\n')}
+
+For each claim decide:
+- "supported": the evidence states it (paraphrase is fine)
+- "contradicted": the evidence states something incompatible
+- "unsupported": the evidence does not establish it
+Judge only from the passages, not from your own knowledge.
+
+Respond with JSON only in exactly this format:
+{ "results": [ { "id": 1, "verdict": "supported", "source": 3, "explanation": "one short sentence" } ] }`,
+          `You are a rigorous fact-checker. Respond with valid JSON only.`,
+          this.signal
+        );
+
+        const parsed = parseJsonResponse<{ results?: Array<{ id?: number; verdict?: string; source?: number; explanation?: string }> }>(response);
+        batch.forEach((item, index) => {
+          const entry = parsed?.results?.find(r => r.id === index + 1) || parsed?.results?.[index];
+          const verdict = entry?.verdict === 'supported' || entry?.verdict === 'contradicted' ? entry.verdict : 'unsupported';
+          verifications.push({
+            claim: item.claim,
+            verdict,
+            citations: item.citations,
+            evidence_source: typeof entry?.source === 'number' ? entry.source : item.evidence[0]?.source,
+            explanation: entry?.explanation || (entry ? '' : 'Verifier returned no verdict')
+          });
+        });
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        console.error('❌ Claim verification batch failed:', error);
+        this.failures.push({ stage: 'verification', message: `${batch.length} claims left unchecked: ${error instanceof Error ? error.message : String(error)}` });
       }
     }
+
+    return verifications;
+  }
+
+  private buildVerificationReport(verifications: ClaimVerification[]): string {
+    if (verifications.length === 0) {
+      return 'No claims were verified.';
+    }
+
+    const count = (verdict: ClaimVerification['verdict']) => verifications.filter(v => v.verdict === verdict).length;
+    const flagged = verifications.filter(v => v.verdict !== 'supported');
+
+    return [
+      `${verifications.length} claims checked: ${count('supported')} supported, ${count('contradicted')} contradicted, ${count('unsupported')} unsupported.`,
+      ...flagged.map(v => `- [${v.verdict.toUpperCase()}] ${stripMarkdown(v.claim)}${v.explanation ? ` — ${v.explanation}` : ''}`)
+    ].join('\n');
+  }
+
+  private analyzeSourceUtilization(synthesis: string, allSources: ResearchSource[]): SourceUtilization {
+    // Only the report body counts; the generated reference list mentions every source
+    const body = synthesis.split(/^## References\s*$/m)[0];
+    const bodyLower = body.toLowerCase();
+    const cited = new Set(extractCitationNumbers(body));
+    const foundCitations = cited.size > 0;
+
+    const sourceDetails = allSources.map((source, index) => {
+      const entities = source.findings?.entities.length
+        ? source.findings.entities
+        : extractEntities(source.content || '');
+      const matchedEntities = entities.filter(entity => bodyLower.includes(entity.toLowerCase()));
+      const isCited = cited.has(index + 1);
+      const entityRatio = entities.length > 0 ? matchedEntities.length / entities.length : 0;
+
+      // Citations are authoritative; without any citations in the report, fall back to entity overlap
+      const used = isCited || (!foundCitations && matchedEntities.length >= 2);
+      const confidence = isCited
+        ? Math.min(1, 0.6 + 0.4 * entityRatio)
+        : Math.min(0.5, 0.5 * entityRatio);
+
+      return {
+        title: source.title,
+        domain: source.domain,
+        used,
+        matchedTerms: isCited ? [`[${index + 1}]`, ...matchedEntities] : matchedEntities,
+        confidence: Math.round(confidence * 100) / 100,
+        entities
+      };
+    });
+
+    const usedDetails = sourceDetails.filter(detail => detail.used);
+    const domainsFound = [...new Set(usedDetails.map(detail => detail.domain))];
+    const missingDomains = [...new Set(sourceDetails.map(detail => detail.domain))]
+      .filter(domain => !domainsFound.includes(domain));
+
+    // Rank entities by how many sources mention them so the missing list shows what matters most
+    const entityCounts = new Map<string, { name: string; count: number }>();
+    sourceDetails.forEach(detail => detail.entities.forEach(entity => {
+      const keyName = entity.toLowerCase();
+      const existing = entityCounts.get(keyName);
+      entityCounts.set(keyName, { name: existing?.name || entity, count: (existing?.count || 0) + 1 });
+    }));
+    const rankedEntities = [...entityCounts.entries()].sort((a, b) => b[1].count - a[1].count);
+    const entitiesFound = rankedEntities.filter(([keyName]) => bodyLower.includes(keyName)).map(([, e]) => e.name);
+    const missingEntities = rankedEntities.filter(([keyName]) => !bodyLower.includes(keyName)).map(([, e]) => e.name).slice(0, 25);
+
+    const sourcesUsed = usedDetails.length;
+    const utilizationScore = allSources.length > 0 ? sourcesUsed / allSources.length : 0;
     
-    const utilizationScore = Math.round((sourcesUsed / allSources.length) * 100);
-    
-    if (utilizationScore < 60) {
-      console.log(`⚠️ LOW SOURCE UTILIZATION: Only ${utilizationScore}% of sources referenced`);
+    if (utilizationScore < 0.6) {
+      const unusedSources = sourceDetails.filter(detail => !detail.used).map(detail => `${detail.title} (${detail.domain})`);
+      console.log(`⚠️ LOW SOURCE UTILIZATION: Only ${Math.round(utilizationScore * 100)}% of sources referenced`);
       console.log(`Unused sources: ${unusedSources.slice(0, 5).join(', ')}${unusedSources.length > 5 ? '...' : ''}`);
     }
     
@@ -2182,7 +3795,12 @@ Write source analysis:`
       utilizationScore,
       sourcesUsed,
       totalSources: allSources.length,
-      unusedSources
+      domainsFound,
+      missingDomains,
+      entitiesFound,
+      missingEntities,
+      foundCitations,
+      sourceDetails: sourceDetails.map(({ entities, ...detail }) => detail)
     };
   }
 }
@@ -2191,10 +3809,24 @@ Write source analysis:`
 class ResearchAPI {
   private static leadResearcher = new LeadResearcher();
 
+  // Replace the engine's environment (endpoints, keys, models, clock, storage, fetch);
+  // settings not given fall back to the defaults for the current host
+  static configure(environment: Partial<ResearchEnvironment>) {
+    this.leadResearcher = new LeadResearcher(createEnvironment(environment));
+  }
+
   static setApiKeys(exaKey: string, cerebrasKey: string) {
     this.leadResearcher.setApiKeys(exaKey, cerebrasKey);
   }
 
+  static setSearchProviders(configs: SearchProviderConfig[]) {
+    this.leadResearcher.setSearchProviders(configs);
+  }
+
+  static setLLMProviders(configs: LLMProviderConfig[]) {
+    this.leadResearcher.setLLMProviders(configs);
+  }
+
   static async checkHealth(): Promise<{ status: string; message: string }> {
     return {
       status: 'healthy',
@@ -2202,12 +3834,17 @@ class ResearchAPI {
     };
   }
 
+  static async answerFollowUp(result: ResearchResult, question: string, options: FollowUpOptions = {}): Promise<FollowUpAnswer> {
+    return this.leadResearcher.answerFollowUp(result, question, options);
+  }
+
   static async performResearch(
     request: ResearchRequest,
-    onProgress: (update: ProgressUpdate) => void
+    onProgress: (update: ProgressUpdate) => void,
+    options: ResearchRunOptions = {}
   ): Promise<ResearchResult> {
-    return this.leadResearcher.orchestrateResearch(request.query, onProgress);
+    return this.leadResearcher.orchestrateResearch(request, onProgress, options);
   }
 }
 
-export { ResearchAPI }; 
\ No newline at end of file
+export { ResearchAPI, LeadResearcher }; 
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { AgentResult, FollowUpMessage, ResearchCheckpoint, ResearchRequest, ResearchResult, ResearchSource } from './api';
+
+// Identifies a file as a research bundle; see docs/research-bundle.md for the full format
+export const BUNDLE_FORMAT = 'cerebras-deep-research/result';
+export const BUNDLE_VERSION = 1;
+
+export interface ResearchBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  settings: ResearchRequest; // Request the run was started with
+  stats: BundleStats;
+  result: ResearchResult; // Complete result, including all_sources with full content
+  checkpoint?: ResearchCheckpoint; // Present for unfinished runs; lets an importer resume them
+}
+
+// A parsed bundle; checkpoint_dropped notes an embedded checkpoint too damaged or old to resume
+export interface ImportedBundle extends ResearchBundle {
+  checkpoint_dropped: boolean;
+}
+
+// Summary numbers, duplicated from the result so archives can be indexed without parsing it
+export interface BundleStats {
+  total_sources: number;
+  total_words: number;
+  layers: number;
+  research_time: number;
+  model_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+function bundleStats(result: ResearchResult): BundleStats {
+  const usage = Object.values(result.model_usage || {});
+  return {
+    total_sources: result.all_sources.length,
+    total_words: result.all_sources.reduce((sum, source) => sum + (source.word_count || 0), 0),
+    layers: result.layer_summaries.length,
+    research_time: result.research_time,
+    model_calls: usage.reduce((sum, model) => sum + model.calls, 0),
+    prompt_tokens: usage.reduce((sum, model) => sum + model.prompt_tokens, 0),
+    completion_tokens: usage.reduce((sum, model) => sum + model.completion_tokens, 0)
+  };
+}
+
+export function createBundle(result: ResearchResult, checkpoint?: ResearchCheckpoint | null): ResearchBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    settings: result.settings || { query: result.original_query },
+    stats: bundleStats(result),
+    result,
+    // Only a checkpoint from the same run can continue it
+    checkpoint: checkpoint && result.run_id && checkpoint.id === result.run_id ? checkpoint : undefined
+  };
+}
+
+export function serializeBundle(bundle: ResearchBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+type JsonObject = Record<string, any>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Sources are rendered and cited by url, title and domain, so a bundle missing any of them is rejected
+function parseSource(value: unknown, index: number): ResearchSource {
+  if (!isObject(value) || typeof value.url !== 'string' || typeof value.title !== 'string'
+    || typeof value.content !== 'string' || typeof value.domain !== 'string') {
+    throw new Error(`Research bundle source ${index + 1} is missing its url, title, content or domain`);
+  }
+  const number = (field: unknown, fallback: number) => (typeof field === 'number' && Number.isFinite(field) ? field : fallback);
+  return {
+    ...value,
+    url: value.url,
+    title: value.title,
+    content: value.content,
+    domain: value.domain,
+    word_count: number(value.word_count, value.content.split(/\s+/).filter(Boolean).length),
+    exa_score: number(value.exa_score, 0),
+    layer: number(value.layer, 1),
+    query_used: typeof value.query_used === 'string' ? value.query_used : '',
+    relevance_score: number(value.relevance_score, 0)
+  };
+}
+
+function parseFollowUp(value: unknown, index: number): FollowUpMessage {
+  if (!isObject(value) || (value.role !== 'user' && value.role !== 'assistant') || typeof value.content !== 'string') {
+    throw new Error(`Research bundle follow-up message ${index + 1} is not a valid question or answer`);
+  }
+  return { ...value, role: value.role, content: value.content, timestamp: typeof value.timestamp === 'string' ? value.timestamp : '' };
+}
+
+const CHECKPOINT_STAGES: ResearchCheckpoint['stage'][] = ['roster', 'layer', 'report_plan', 'section'];
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// A checkpoint that resuming and the resume banner can rely on, or null. Checkpoints come from bundles
+// and from IndexedDB, where older app versions or hand edits may have left something else
+export function parseCheckpoint(value: unknown): ResearchCheckpoint | null {
+  if (!isObject(value) || typeof value.id !== 'string' || !isObject(value.request) || typeof value.request.query !== 'string'
+    || !CHECKPOINT_STAGES.includes(value.stage) || typeof value.updated_at !== 'string'
+    || !isObject(value.roster) || !Array.isArray(value.roster.agents) || !Array.isArray(value.agent_results)) {
+    return null;
+  }
+  const agents = value.roster.agents;
+  if (!agents.every((agent: unknown) => isObject(agent) && typeof agent.name === 'string' && typeof agent.specialization === 'string')) {
+    return null;
+  }
+
+  try {
+    const agentResults: AgentResult[] = value.agent_results.map((result: unknown) => {
+      if (!isObject(result) || typeof result.specialization !== 'string' || typeof result.findings !== 'string' || !Array.isArray(result.sources)) {
+        throw new Error('Invalid agent result');
+      }
+      return {
+        specialization: result.specialization,
+        sources: result.sources.map(parseSource),
+        findings: result.findings,
+        confidence_gaps: stringList(result.confidence_gaps),
+        queries_used: stringList(result.queries_used)
+      };
+    });
+
+    return {
+      ...(value as ResearchCheckpoint),
+      roster: { topic_type: typeof value.roster.topic_type === 'string' ? value.roster.topic_type : 'general', agents },
+      agent_results: agentResults,
+      layer_summaries: Array.isArray(value.layer_summaries) ? value.layer_summaries : [],
+      completed_layers: typeof value.completed_layers === 'number' ? value.completed_layers : 0,
+      layers_finished: value.layers_finished === true,
+      seen_urls: stringList(value.seen_urls),
+      section_drafts: stringList(value.section_drafts),
+      mentioned_facts: stringList(value.mentioned_facts)
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Parse and validate a bundle, upgrading older versions to the current one
+export function parseBundle(json: string): ImportedBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a research bundle: the file is not valid JSON');
+  }
+
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT) {
+    throw new Error(`Not a research bundle: expected format "${BUNDLE_FORMAT}"`);
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new Error('Research bundle has no valid version number');
+  }
+  if (data.version > BUNDLE_VERSION) {
+    throw new Error(`Research bundle version ${data.version} is newer than this app supports (${BUNDLE_VERSION}); please update the app`);
+  }
+
+  const result = data.result;
+  if (!isObject(result) || typeof result.original_query !== 'string' || typeof result.final_synthesis !== 'string' || !Array.isArray(result.all_sources)) {
+    throw new Error('Research bundle is missing its result (query, report or sources)');
+  }
+  const allSources = result.all_sources.map(parseSource);
+  if (result.follow_ups !== undefined && !Array.isArray(result.follow_ups)) {
+    throw new Error('Research bundle follow-up messages must be a list');
+  }
+
+  // Version 1 is current; future versions add their upgrade steps here in order
+  const normalizedResult: ResearchResult = {
+    ...(result as ResearchResult),
+    all_sources: allSources,
+    follow_ups: result.follow_ups ? result.follow_ups.map(parseFollowUp) : undefined,
+    topic_type: result.topic_type || 'general',
+    layer_summaries: Array.isArray(result.layer_summaries) ? result.layer_summaries : [],
+    total_sources: typeof result.total_sources === 'number' ? result.total_sources : allSources.length,
+    research_time: typeof result.research_time === 'number' ? result.research_time : 0,
+    timestamp: result.timestamp || data.exported_at || new Date().toISOString(),
+    status: result.status || 'completed'
+  };
+
+  const checkpoint = data.checkpoint !== undefined && data.checkpoint !== null ? parseCheckpoint(data.checkpoint) : null;
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: data.exported_at || normalizedResult.timestamp,
+    settings: data.settings || normalizedResult.settings || { query: normalizedResult.original_query },
+    stats: data.stats || bundleStats(normalizedResult),
+    result: normalizedResult,
+    checkpoint: checkpoint || undefined,
+    checkpoint_dropped: data.checkpoint !== undefined && data.checkpoint !== null && !checkpoint
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * Headless command line entry point
+ * Runs the research engine under Node with API keys from the environment
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { ResearchAPI, ResearchRequest, ResearchResult, ProgressUpdate, normalizeSearchSettings } from './api';
+import { createBundle, serializeBundle } from './bundle';
+import { environmentFromVariables, ResearchEnvironment, usesCerebras, usesExa } from './environment';
+import { loadFixtureFiles } from './search';
+
+const USAGE = `Usage: deep-research "<query>" [options]
+
+Options:
+  -o, --out <file>           Write the Markdown report to a file (default: stdout)
+  -s, --sources <file>       Write the collected sources as JSON
+                             (default with --out: <report name>.sources.json)
+  -b, --bundle <file>        Also write a research bundle (.research.json)
+  -a, --agents <n>           Number of specialist agents, 1-6 (default: chosen per query)
+  -m, --model <name>         Cerebras model to use; repeat to cycle several (default: all)
+  -l, --layers <n>           Research layers, 1-5 (default: 1)
+      --sources-per-layer <n>
+                             Source budget per layer (default: 48)
+      --include-domain <d>   Only search this domain; repeat or comma separate for several
+      --exclude-domain <d>   Never use sources from this domain; repeatable
+      --since <YYYY-MM-DD>   Only content published on or after this date
+      --until <YYYY-MM-DD>   Only content published on or before this date
+      --search-type <type>   neural, keyword or auto (default: neural)
+      --category <name>      Exa category, e.g. news, "research paper", company, pdf
+      --results <n>          Results per search, 1-100 (default: from the source budget)
+  -q, --quiet                No progress output
+  -v, --verbose              Include the engine's debug logs on stderr
+  -h, --help                 Show this help
+
+Environment:
+  EXA_API_KEY                Exa API key (required when searching Exa)
+  CEREBRAS_API_KEY           Cerebras API key (required when using Cerebras)
+  EXA_BASE_URL               Exa endpoint (default: https://api.exa.ai)
+  CEREBRAS_BASE_URL          Cerebras endpoint (default: https://api.cerebras.ai)
+  CEREBRAS_MODELS            Comma separated models to cycle when --model is not given
+  CEREBRAS_CONTEXT_WINDOWS   Context windows by model, e.g. llama-3.3-70b=65536 (default: 8192)
+  LLM_PROVIDERS              JSON list of OpenAI-compatible model providers, mixed in one run
+                             (default: Cerebras), e.g. [{"name":"local",
+                             "baseUrl":"http://localhost:11434/v1","models":["llama3.1:8b"]}];
+                             name "cerebras" without a baseUrl is the built-in provider
+  SEARCH_PROVIDERS           Comma separated search backends, searched together (default: exa):
+                             exa, searxng=<url>, json=<url>, fixture=<file or url>
+  SEARCH_JSON_API_KEY        Bearer token for the json provider
+  RESEARCH_KEYS_ON_SERVER    Set to true when the base URLs are a proxy holding the keys
+  RESEARCH_PROXY_TOKEN       Access token of that proxy, sent as x-proxy-token
+
+Exit codes:
+  0 completed, 1 error, 2 partial or sources-only report, 130 cancelled`;
+
+// Exit codes scripts can branch on
+const EXIT_ERROR = 1;
+const EXIT_INCOMPLETE = 2;
+const EXIT_CANCELLED = 130;
+
+class UsageError extends Error {}
+
+function parsePositiveInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new UsageError(`${flag} expects a positive whole number, got "${value}"`);
+  }
+  return number;
+}
+
+// report.md -> report.sources.json
+function sourcesPathFor(reportPath: string): string {
+  return reportPath.replace(/(\.[^./\\]+)?$/, '.sources.json');
+}
+
+function parseCommandLine(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      sources: { type: 'string', short: 's' },
+      bundle: { type: 'string', short: 'b' },
+      agents: { type: 'string', short: 'a' },
+      model: { type: 'string', short: 'm', multiple: true },
+      layers: { type: 'string', short: 'l' },
+      'sources-per-layer': { type: 'string' },
+      'include-domain': { type: 'string', multiple: true },
+      'exclude-domain': { type: 'string', multiple: true },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      'search-type': { type: 'string' },
+      category: { type: 'string' },
+      results: { type: 'string' },
+      quiet: { type: 'boolean', short: 'q' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  const query = positionals.join(' ').trim();
+  if (!values.help && !query) {
+    throw new UsageError('Missing research query');
+  }
+
+  const agents = parsePositiveInt(values.agents, '--agents');
+  if (agents !== undefined && agents > 6) {
+    throw new UsageError('--agents must be between 1 and 6');
+  }
+  const layers = parsePositiveInt(values.layers, '--layers');
+  if (layers !== undefined && layers > 5) {
+    throw new UsageError('--layers must be between 1 and 5');
+  }
+
+  let search: ResearchRequest['search'];
+  try {
+    search = normalizeSearchSettings({
+      type: values['search-type'],
+      category: values.category,
+      include_domains: values['include-domain']?.join(','),
+      exclude_domains: values['exclude-domain']?.join(','),
+      start_published_date: values.since,
+      end_published_date: values.until,
+      num_results: values.results
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const request: ResearchRequest = {
+    query,
+    max_layers: layers,
+    sources_per_layer: parsePositiveInt(values['sources-per-layer'], '--sources-per-layer'),
+    agent_count: agents,
+    search
+  };
+
+  return {
+    help: !!values.help,
+    request,
+    models: values.model || [],
+    reportPath: values.out,
+    sourcesPath: values.sources || (values.out ? sourcesPathFor(values.out) : undefined),
+    bundlePath: values.bundle,
+    quiet: !!values.quiet,
+    verbose: !!values.verbose
+  };
+}
+
+// The engine logs to the console for the browser devtools; keep stdout free for the report
+function redirectEngineLogs(verbose: boolean) {
+  const toStderr = (...args: unknown[]) => {
+    if (verbose) process.stderr.write(`${args.map(arg => typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' ')}\n`);
+  };
+  console.log = toStderr;
+  console.info = toStderr;
+  console.debug = toStderr;
+  console.warn = toStderr;
+  console.error = toStderr;
+}
+
+// Print stage changes and finished activities once each
+function createProgressPrinter() {
+  let lastStage = '';
+  const reported = new Set<string>();
+
+  return (update: ProgressUpdate) => {
+    if (update.stage && update.stage !== lastStage) {
+      lastStage = update.stage;
+      process.stderr.write(`[${String(Math.round(update.progress_percent)).padStart(3)}%] ${update.stage}\n`);
+    }
+    for (const activity of update.activity_updates || []) {
+      if (activity.status !== 'completed' && activity.status !== 'failed') continue;
+      if (reported.has(activity.id)) continue;
+      reported.add(activity.id);
+      const marker = activity.status === 'failed' ? '✗' : '✓';
+      process.stderr.write(`       ${marker} ${activity.title}${activity.content ? `: ${activity.content}` : ''}\n`);
+    }
+  };
+}
+
+function exitCodeFor(result: ResearchResult): number {
+  if (result.status === 'cancelled') return EXIT_CANCELLED;
+  if (result.status === 'partial' || result.status === 'sources_only') return EXIT_INCOMPLETE;
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: ReturnType<typeof parseCommandLine>;
+  try {
+    options = parseCommandLine(argv);
+  } catch (error) {
+    process.stderr.write(`deep-research: ${error instanceof Error ? error.message : error}\n\n${USAGE}\n`);
+    return EXIT_ERROR;
+  }
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  let environment: ResearchEnvironment;
+  try {
+    environment = environmentFromVariables(process.env, options.models.length > 0 ? { models: options.models } : {});
+    environment.searchProviders = await loadFixtureFiles(environment.searchProviders, path => readFile(path, 'utf8'));
+  } catch (error) {
+    process.stderr.write(`deep-research: ${error instanceof Error ? error.message : error}\n`);
+    return EXIT_ERROR;
+  }
+  const missingKeys = environment.keysOnServer ? [] : [
+    usesExa(environment) && !environment.exaApiKey && 'EXA_API_KEY',
+    usesCerebras(environment) && !environment.cerebrasApiKey && 'CEREBRAS_API_KEY'
+  ].filter(Boolean);
+  if (missingKeys.length > 0) {
+    process.stderr.write(`deep-research: set ${missingKeys.join(' and ')} in the environment\n`);
+    return EXIT_ERROR;
+  }
+
+  redirectEngineLogs(options.verbose);
+  ResearchAPI.configure(environment);
+
+  // First Ctrl+C stops the run and keeps what was gathered; a second one exits immediately
+  const abortController = new AbortController();
+  process.on('SIGINT', () => {
+    if (abortController.signal.aborted) process.exit(EXIT_CANCELLED);
+    process.stderr.write('\n⏹ Stopping research, press Ctrl+C again to exit immediately\n');
+    abortController.abort();
+  });
+  process.on('SIGTERM', () => abortController.abort());
+
+  const printProgress = options.quiet ? () => {} : createProgressPrinter();
+  let result: ResearchResult;
+  try {
+    result = await ResearchAPI.performResearch(options.request, printProgress, { signal: abortController.signal });
+  } catch (error) {
+    process.stderr.write(`deep-research: research failed: ${error instanceof Error ? error.message : error}\n`);
+    return abortController.signal.aborted ? EXIT_CANCELLED : EXIT_ERROR;
+  }
+
+  if (options.reportPath) {
+    await writeFile(options.reportPath, result.final_synthesis, 'utf8');
+    process.stderr.write(`📝 Report written to ${options.reportPath}\n`);
+  } else {
+    process.stdout.write(`${result.final_synthesis}\n`);
+  }
+  if (options.sourcesPath) {
+    await writeFile(options.sourcesPath, JSON.stringify(result.all_sources, null, 2), 'utf8');
+    process.stderr.write(`📚 ${result.all_sources.length} sources written to ${options.sourcesPath}\n`);
+  }
+  if (options.bundlePath) {
+    await writeFile(options.bundlePath, serializeBundle(createBundle(result)), 'utf8');
+    process.stderr.write(`📦 Research bundle written to ${options.bundlePath}\n`);
+  }
+
+  if (!options.quiet) {
+    process.stderr.write(`✅ ${result.status} in ${result.research_time.toFixed(1)}s with ${result.total_sources} sources\n`);
+  }
+  return exitCodeFor(result);
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    process.stderr.write(`deep-research: ${error instanceof Error ? error.stack || error.message : error}\n`);
+    process.exit(EXIT_ERROR);
+  }
+);
@@ -0,0 +1,183 @@
+/**
+ * Token-aware context packing
+ * Counts tokens with a BPE tokenizer, knows each model's context window and fills a prompt's
+ * token budget with the source passages most relevant to what is being written. Text is only
+ * ever cut between sentences, and the instructions at the end of a prompt are kept.
+ */
+
+import { countTokens as countBpeTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+
+// Context windows in tokens, prompt and completion together. These are the Cerebras free-tier
+// limits; paid plans allow more, set with CEREBRAS_CONTEXT_WINDOWS (see environment.ts)
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'llama-3.3-70b': 8192,
+  'llama-3.1-8b': 8192,
+  'llama-4-scout-17b-16e-instruct': 8192,
+  'qwen-3-32b': 8192
+};
+
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Completion tokens asked for per call, and the share of the window always left free for them
+export const MAX_COMPLETION_TOKENS = 4000;
+export const RESPONSE_RESERVE_TOKENS = 2500;
+
+// Role markers and message framing the API adds around the prompt
+const MESSAGE_OVERHEAD_TOKENS = 16;
+
+// cl100k_base is close to the Llama 3 and Qwen vocabularies but not identical; pad counts to stay under
+const TOKENIZER_MARGIN = 1.1;
+
+// Tokens in chunks of this size rank well: big enough to carry a fact with its context
+const PASSAGE_TOKENS = 160;
+
+const OMISSION_MARKER = '[... material omitted to fit the context window ...]';
+
+export function countTokens(text: string): number {
+  return text ? Math.ceil(countBpeTokens(text) * TOKENIZER_MARGIN) : 0;
+}
+
+export function contextWindowFor(model: string, overrides: Record<string, number> = {}): number {
+  return overrides[model] || MODEL_CONTEXT_WINDOWS[model] || DEFAULT_CONTEXT_WINDOW;
+}
+
+// Prompt tokens a model can take while leaving room for the response
+export function promptTokenBudget(window: number, systemPrompt?: string): number {
+  return window - RESPONSE_RESERVE_TOKENS - MESSAGE_OVERHEAD_TOKENS - countTokens(systemPrompt || '');
+}
+
+// Completion tokens to request once the prompt is known, never more than the window has left
+export function completionTokenBudget(window: number, promptTokens: number): number {
+  return Math.max(256, Math.min(MAX_COMPLETION_TOKENS, window - promptTokens - MESSAGE_OVERHEAD_TOKENS));
+}
+
+// Sentences of a text, with line breaks treated as boundaries too (headings, list items, table rows).
+// Sentences that start a line keep their leading newline, so joining them restores the layout.
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap(line => line
+      .split(/(?<=[.!?]["')\]]?)\s+(?=["'(\[]?[A-Z0-9])/)
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .map((sentence, index) => (index === 0 ? `\n${sentence}` : ` ${sentence}`)))
+    .map((sentence, index) => (index === 0 ? sentence.trimStart() : sentence));
+}
+
+// Consecutive sentences grouped into chunks of about passageTokens; a longer sentence is its own chunk
+// Each chunk remembers whether it continues a line (' ') or starts one ('\n')
+function chunkSentences(text: string, passageTokens: number): Array<{ text: string; tokens: number; join: string }> {
+  const chunks: Array<{ text: string; tokens: number; join: string }> = [];
+  let current = '';
+  let join = '\n';
+  let currentTokens = 0;
+  for (const sentence of splitSentences(text)) {
+    const tokens = countTokens(sentence);
+    if (current && currentTokens + tokens > passageTokens) {
+      chunks.push({ text: current, tokens: currentTokens, join });
+      current = '';
+      currentTokens = 0;
+    }
+    if (!current) join = sentence.startsWith(' ') ? ' ' : '\n';
+    current = current ? current + sentence : sentence.trimStart();
+    currentTokens += tokens;
+  }
+  if (current) chunks.push({ text: current, tokens: currentTokens, join });
+  return chunks;
+}
+
+// Distinctive words of a focus: longer words and anything with a digit
+export function focusTerms(focus: string): Set<string> {
+  return new Set(focus.toLowerCase().split(/\W+/).filter(term => term.length > 3 || /\d/.test(term)));
+}
+
+// Term overlap with the focus, normalised by length, with a nudge towards figures and document openings
+function relevance(text: string, terms: Set<string>, position: number): number {
+  const words = text.toLowerCase().split(/\W+/).filter(Boolean);
+  const hits = words.filter(word => terms.has(word)).length;
+  return hits / Math.sqrt(words.length + 1) + (/\d/.test(text) ? 0.2 : 0) + (position === 0 ? 0.3 : 0);
+}
+
+export interface PackableDocument {
+  header: string; // Written once above the document's passages, e.g. "[3] **Title** (domain)"
+  text: string;
+}
+
+// Fill a token budget with the passages most relevant to the focus, across all documents. Later
+// passages of a document rank lower so one long source cannot crowd out the rest; the chosen passages
+// are printed in document order under their header. Documents with nothing chosen are left out.
+export function packDocuments(documents: PackableDocument[], focus: string, maxTokens: number, separator = '\n\n'): string {
+  const terms = focusTerms(focus);
+  const separatorTokens = countTokens(separator);
+  // Small budgets, such as a snippet per source, get sentence-sized chunks so at least one fits
+  const passageTokens = Math.max(1, Math.min(PASSAGE_TOKENS, Math.floor(maxTokens / 2)));
+  const candidates = documents.flatMap((document, documentIndex) =>
+    chunkSentences(document.text, passageTokens).map((chunk, position) => ({
+      documentIndex,
+      position,
+      ...chunk,
+      score: relevance(chunk.text, terms, position) / (1 + position * 0.15)
+    }))
+  );
+
+  const chosen = new Map<number, typeof candidates>();
+  let used = 0;
+  for (const candidate of [...candidates].sort((a, b) => b.score - a.score)) {
+    const isNewDocument = !chosen.has(candidate.documentIndex);
+    const cost = candidate.tokens + 1 + (isNewDocument ? countTokens(documents[candidate.documentIndex].header) + separatorTokens : 0);
+    if (used + cost > maxTokens) continue;
+    used += cost;
+    chosen.set(candidate.documentIndex, [...(chosen.get(candidate.documentIndex) || []), candidate]);
+  }
+
+  return [...chosen.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([documentIndex, chunks]) => {
+      const ordered = chunks.sort((a, b) => a.position - b.position);
+      // Mark gaps so the model does not read two distant passages as one argument
+      const body = ordered.map((chunk, i) => {
+        if (i === 0) return chunk.text;
+        return chunk.position === ordered[i - 1].position + 1 ? chunk.join + chunk.text : `\n... ${chunk.text}`;
+      }).join('');
+      return `${documents[documentIndex].header}\n${body}`;
+    })
+    .join(separator);
+}
+
+// Most relevant passages of a single text within the budget, in their original order
+export function packText(text: string, focus: string, maxTokens: number): string {
+  if (countTokens(text) <= maxTokens) return text;
+  return packDocuments([{ header: '', text }], focus, maxTokens).trimStart();
+}
+
+// Last-resort fit for a prompt that is still over budget: the closing instructions and the opening
+// task are kept, whole lines or sentences are dropped from the middle and the gap is marked
+export function fitPrompt(prompt: string, maxTokens: number): string {
+  if (countTokens(prompt) <= maxTokens) return prompt;
+
+  const units = prompt.split('\n').flatMap(line => {
+    if (countTokens(line) <= PASSAGE_TOKENS) return [line];
+    const sentences = splitSentences(line).map(sentence => sentence.trim());
+    return sentences.length > 0 ? sentences : [line];
+  });
+  const available = maxTokens - countTokens(OMISSION_MARKER) - 2;
+
+  // Instructions sit at the end, so the tail is kept first, up to half the budget
+  const tail: string[] = [];
+  let used = 0;
+  for (let i = units.length - 1; i >= 0; i--) {
+    const tokens = countTokens(units[i]) + 1;
+    if (used + tokens > available / 2) break;
+    tail.unshift(units[i]);
+    used += tokens;
+  }
+  const head: string[] = [];
+  for (const unit of units.slice(0, units.length - tail.length)) {
+    const tokens = countTokens(unit) + 1;
+    if (used + tokens > available) break;
+    head.push(unit);
+    used += tokens;
+  }
+
+  return [...head, OMISSION_MARKER, ...tail].join('\n');
+}
@@ -0,0 +1,198 @@
+/// <reference types="vite/client" />
+/**
+ * Local documents as research sources
+ * Uploaded PDF, DOCX, HTML, Markdown and text files are parsed in the browser into ResearchSource
+ * records, so agents and synthesis use them like web sources. Nothing is uploaded anywhere: only the
+ * passages chosen for a prompt reach the model API.
+ */
+
+import type { ResearchSource } from './api';
+import { focusTerms } from './context';
+
+// Domain of every uploaded document; their URLs are local-upload://<content hash>/<file name>
+export const LOCAL_UPLOAD_DOMAIN = 'local-upload';
+
+export const DOCUMENT_EXTENSIONS = ['.pdf', '.docx', '.html', '.htm', '.md', '.markdown', '.txt'];
+
+export const MAX_DOCUMENT_BYTES = 25 * 1024 * 1024;
+
+type DocumentKind = 'pdf' | 'docx' | 'html' | 'markdown' | 'text';
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“'
+};
+
+export function isLocalDocument(source: Pick<ResearchSource, 'domain'>): boolean {
+  return source.domain === LOCAL_UPLOAD_DOMAIN;
+}
+
+// File name an uploaded document's URL was made from
+export function documentFileName(source: Pick<ResearchSource, 'url'>): string {
+  return decodeURIComponent(source.url.split('/').pop() || '');
+}
+
+// Short content hash, so two different files with the same name stay separate sources
+async function contentHash(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return [...new Uint8Array(digest).slice(0, 6)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function documentKind(fileName: string): DocumentKind | null {
+  const extension = fileName.toLowerCase().match(/\.[a-z]+$/)?.[0] || '';
+  switch (extension) {
+    case '.pdf': return 'pdf';
+    case '.docx': return 'docx';
+    case '.html':
+    case '.htm': return 'html';
+    case '.md':
+    case '.markdown': return 'markdown';
+    case '.txt': return 'text';
+    default: return null;
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// Readable text of an HTML page: scripts, styles and navigation dropped, block elements on their own lines
+export function htmlToText(html: string): { title: string; text: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1] || '';
+  const text = html
+    .replace(/<(script|style|noscript|head|nav|footer|svg)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(br|hr)\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|h[1-6]|li|tr|table|ul|ol|blockquote|pre)[^>]*>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '');
+  return { title: decodeEntities(title.replace(/<[^>]+>/g, '')).trim(), text: decodeEntities(text) };
+}
+
+async function pdfToText(data: ArrayBuffer): Promise<{ title: string; text: string }> {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default;
+  }
+
+  const loadingTask = pdfjs.getDocument({ data: new Uint8Array(data) });
+  try {
+    const pdf = await loadingTask.promise;
+    const metadata = await pdf.getMetadata().catch(() => null);
+    const pages: string[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      pages.push(content.items.map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')).join(''));
+      page.cleanup();
+    }
+    const info = metadata?.info as { Title?: string } | undefined;
+    return { title: typeof info?.Title === 'string' ? info.Title.trim() : '', text: pages.join('\n\n') };
+  } finally {
+    await loadingTask.destroy();
+  }
+}
+
+async function docxToText(data: ArrayBuffer): Promise<string> {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: data });
+  return result.value;
+}
+
+// Collapse runs of spaces and blank lines while keeping paragraph breaks
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// "q3-board_report.pdf" -> "q3 board report"
+function titleFromFileName(fileName: string): string {
+  return fileName.replace(/\.[a-z]+$/i, '').replace(/[-_]+/g, ' ').trim() || fileName;
+}
+
+// Parse a document into a source. Throws with a message fit for the user when the file
+// type is not supported or no text can be extracted (e.g. a scanned PDF without a text layer).
+export async function parseDocument(fileName: string, data: ArrayBuffer): Promise<ResearchSource> {
+  const kind = documentKind(fileName);
+  if (!kind) {
+    throw new Error(`${fileName}: unsupported file type, use ${DOCUMENT_EXTENSIONS.join(', ')}`);
+  }
+  if (data.byteLength > MAX_DOCUMENT_BYTES) {
+    throw new Error(`${fileName}: larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB`);
+  }
+  // Hashed first: the PDF parser may hand the buffer over to its worker
+  const hash = await contentHash(data);
+
+  let title = '';
+  let text: string;
+  if (kind === 'pdf') {
+    ({ title, text } = await pdfToText(data));
+  } else if (kind === 'docx') {
+    text = await docxToText(data);
+  } else {
+    const raw = new TextDecoder().decode(data);
+    if (kind === 'html') {
+      ({ title, text } = htmlToText(raw));
+    } else {
+      text = raw;
+      if (kind === 'markdown') title = raw.match(/^#\s+(.+)$/m)?.[1].trim() || '';
+    }
+  }
+
+  const content = normalizeText(text);
+  if (!content) {
+    throw new Error(`${fileName}: no text found${kind === 'pdf' ? ' (scanned PDFs need OCR first)' : ''}`);
+  }
+
+  const wordCount = content.split(/\s+/).length;
+  console.log(`📎 Parsed ${fileName}: ${wordCount} words`);
+  return {
+    url: `local-upload://${hash}/${encodeURIComponent(fileName)}`,
+    title: title || titleFromFileName(fileName),
+    content,
+    word_count: wordCount,
+    exa_score: 1,
+    layer: 1,
+    query_used: 'uploaded document',
+    relevance_score: 1,
+    domain: LOCAL_UPLOAD_DOMAIN
+  };
+}
+
+export async function parseDocumentFile(file: File): Promise<ResearchSource> {
+  return parseDocument(file.name, await file.arrayBuffer());
+}
+
+// Documents that share at least a third of the query's terms, best match first. A term found in the
+// title scores on top of the content; coverage of distinct terms is used rather than raw counts so long documents do not always win.
+export function searchDocuments<T extends { title: string; content: string }>(documents: T[], query: string, limit: number): Array<{ document: T; score: number }> {
+  const terms = focusTerms(query);
+  if (terms.size === 0) return [];
+  const required = Math.max(1, Math.ceil(terms.size / 3));
+
+  return documents
+    .map(document => {
+      const titleWords = new Set(document.title.toLowerCase().split(/\W+/));
+      const contentWords = new Set(document.content.toLowerCase().split(/\W+/));
+      let matched = 0;
+      let score = 0;
+      for (const term of terms) {
+        if (contentWords.has(term) || titleWords.has(term)) matched++;
+        score += (contentWords.has(term) ? 1 : 0) + (titleWords.has(term) ? 1 : 0);
+      }
+      return { document, matched, score: score / (terms.size * 2) };
+    })
+    .filter(match => match.matched >= required)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ document, score }) => ({ document, score }));
+}
@@ -0,0 +1,169 @@
+/**
+ * Host environment for the research engine
+ * Everything the engine used to read from browser globals is injected through here,
+ * so the same code runs in the web app, the CLI, a server or a Web Worker.
+ */
+
+import { CEREBRAS_PROVIDER, LLMProviderConfig, normalizeLLMProviders } from './llm';
+import { DEFAULT_SEARCH_PROVIDERS, parseSearchProviders, SearchProviderConfig } from './search';
+
+export interface ApiEndpoints {
+  exa: string; // Base URL without trailing slash, e.g. https://api.exa.ai or /api/exa
+  cerebras: string; // Base URL without trailing slash; /v1/chat/completions is appended
+}
+
+// Time source for rate limiting, run timing and timestamps
+export interface ResearchClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+// Where user preferences such as the selected model are read from
+export interface PreferenceStorage {
+  getItem(key: string): string | null;
+}
+
+export interface ResearchEnvironment {
+  endpoints: ApiEndpoints;
+  exaApiKey: string;
+  cerebrasApiKey: string;
+  keysOnServer: boolean; // Endpoints are a proxy that adds its own keys, so none are required here
+  proxyToken: string; // Sent as x-proxy-token so a token-protected proxy adds its keys
+  models: string[]; // Cerebras models to cycle through, first one preferred
+  contextWindows: Record<string, number>; // Context window overrides in tokens, by model (see context.ts)
+  llmProviders: LLMProviderConfig[]; // Where models run; several are mixed in one run, empty means Cerebras only (see llm.ts)
+  searchProviders: SearchProviderConfig[]; // Where sources come from; several are searched at once (see search.ts)
+  fetch: typeof fetch;
+  clock: ResearchClock;
+  storage: PreferenceStorage | null;
+}
+
+export const DIRECT_ENDPOINTS: ApiEndpoints = {
+  exa: 'https://api.exa.ai',
+  cerebras: 'https://api.cerebras.ai'
+};
+
+// Same-origin routes of the API proxy (src/proxy.ts), served by the Netlify function or the research server
+export const PROXY_ENDPOINTS: ApiEndpoints = {
+  exa: '/api/exa',
+  cerebras: '/api/cerebras'
+};
+
+const PROXY_STATUS_URL = '/api/proxy/status';
+
+export const DEFAULT_MODELS = [
+  'llama-3.3-70b',
+  'llama-3.1-8b',
+  'llama-4-scout-17b-16e-instruct',
+  'qwen-3-32b'
+];
+
+export const systemClock: ResearchClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// Whether runs search Exa, and so need an Exa key
+export function usesExa(environment: Pick<ResearchEnvironment, 'searchProviders'>): boolean {
+  return environment.searchProviders.some(provider => provider.type === 'exa');
+}
+
+// Whether runs call the built-in Cerebras provider, and so need a Cerebras key
+export function usesCerebras(environment: Pick<ResearchEnvironment, 'llmProviders'>): boolean {
+  return environment.llmProviders.length === 0 || environment.llmProviders.some(provider => provider.name === CEREBRAS_PROVIDER && !provider.baseUrl);
+}
+
+// Deployed web builds reach the APIs through the /api proxy; local dev and Node call them directly
+function isDeployedBrowser(): boolean {
+  if (typeof window === 'undefined') return false;
+  return window.location.hostname !== 'localhost' && window.location.hostname !== '127.0.0.1';
+}
+
+function defaultStorage(): PreferenceStorage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null; // Accessing localStorage throws when storage is blocked
+  }
+}
+
+// Whether a same-origin proxy is reachable and holds both API keys, so users need none of their own
+export async function proxyHasKeys(): Promise<boolean> {
+  try {
+    const response = await fetch(PROXY_STATUS_URL);
+    if (!response.ok) return false;
+    const status = await response.json();
+    return !!(status?.exa && status?.cerebras);
+  } catch {
+    return false; // No proxy: the dev server or static hosting answered instead
+  }
+}
+
+// Environment for the current host, with any setting overridden
+export function createEnvironment(overrides: Partial<ResearchEnvironment> = {}): ResearchEnvironment {
+  // Call fetch unbound: window.fetch throws "Illegal invocation" when called as a method of another object
+  const fetchImpl = overrides.fetch || ((input, init) => fetch(input, init));
+  return {
+    endpoints: overrides.endpoints || (isDeployedBrowser() ? PROXY_ENDPOINTS : DIRECT_ENDPOINTS),
+    exaApiKey: overrides.exaApiKey || '',
+    cerebrasApiKey: overrides.cerebrasApiKey || '',
+    keysOnServer: overrides.keysOnServer || false,
+    proxyToken: overrides.proxyToken || '',
+    models: overrides.models?.length ? [...overrides.models] : [...DEFAULT_MODELS],
+    contextWindows: { ...overrides.contextWindows },
+    llmProviders: overrides.llmProviders ? [...overrides.llmProviders] : [],
+    searchProviders: overrides.searchProviders?.length ? [...overrides.searchProviders] : [...DEFAULT_SEARCH_PROVIDERS],
+    fetch: (input, init) => fetchImpl(input, init),
+    clock: overrides.clock || systemClock,
+    storage: overrides.storage !== undefined ? overrides.storage : defaultStorage()
+  };
+}
+
+// Environment configured from variables such as process.env:
+// EXA_API_KEY, CEREBRAS_API_KEY, EXA_BASE_URL, CEREBRAS_BASE_URL, CEREBRAS_MODELS (comma separated),
+// CEREBRAS_CONTEXT_WINDOWS (e.g. "llama-3.3-70b=65536,qwen-3-32b=65536"),
+// LLM_PROVIDERS (JSON list of provider configurations, e.g. '[{"name":"local","baseUrl":"http://localhost:11434/v1","models":["llama3.1:8b"]}]'),
+// SEARCH_PROVIDERS (e.g. "exa,searxng=https://searx.example.org") with SEARCH_JSON_API_KEY for a json provider,
+// and RESEARCH_KEYS_ON_SERVER=true when the base URLs point at a proxy that holds the keys,
+// with RESEARCH_PROXY_TOKEN as its access token when it has one
+export function environmentFromVariables(
+  variables: Record<string, string | undefined>,
+  overrides: Partial<ResearchEnvironment> = {}
+): ResearchEnvironment {
+  const models = variables.CEREBRAS_MODELS?.split(',').map(model => model.trim()).filter(Boolean);
+  const contextWindows: Record<string, number> = {};
+  for (const entry of variables.CEREBRAS_CONTEXT_WINDOWS?.split(',') || []) {
+    const [model, tokens] = entry.split('=').map(part => part.trim());
+    if (model && parseInt(tokens, 10) > 0) contextWindows[model] = parseInt(tokens, 10);
+  }
+  return createEnvironment({
+    endpoints: {
+      exa: variables.EXA_BASE_URL?.replace(/\/+$/, '') || DIRECT_ENDPOINTS.exa,
+      cerebras: variables.CEREBRAS_BASE_URL?.replace(/\/+$/, '') || DIRECT_ENDPOINTS.cerebras
+    },
+    exaApiKey: variables.EXA_API_KEY?.trim(),
+    cerebrasApiKey: variables.CEREBRAS_API_KEY?.trim(),
+    keysOnServer: variables.RESEARCH_KEYS_ON_SERVER === 'true',
+    proxyToken: variables.RESEARCH_PROXY_TOKEN?.trim(),
+    models,
+    contextWindows,
+    llmProviders: variables.LLM_PROVIDERS ? parseLLMProviders(variables.LLM_PROVIDERS) : undefined,
+    searchProviders: variables.SEARCH_PROVIDERS
+      ? parseSearchProviders(variables.SEARCH_PROVIDERS, variables.SEARCH_JSON_API_KEY?.trim())
+      : undefined,
+    storage: null,
+    ...overrides
+  });
+}
+
+function parseLLMProviders(value: string): LLMProviderConfig[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('LLM_PROVIDERS must be a JSON list of providers');
+  }
+  return normalizeLLMProviders(parsed);
+}
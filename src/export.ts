@@ -0,0 +1,403 @@
+import { ResearchCheckpoint, ResearchResult, formatReference } from './api';
+import { createBundle, serializeBundle } from './bundle';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'docx' | 'json';
+
+// Block-level structure of a report, shared by the HTML, PDF and DOCX writers
+type ReportBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' };
+
+// Inline run of text: plain, bold, a link or a citation marker
+interface InlineSegment {
+  text: string;
+  bold?: boolean;
+  url?: string;
+  citation?: number;
+}
+
+const REFERENCE_LINE = /^\[(\d+)\]\s+/;
+
+function parseReportBlocks(markdown: string): ReportBlock[] {
+  const blocks: ReportBlock[] = [];
+  let paragraph: string[] = [];
+  let list: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+    if (list.length > 0) {
+      blocks.push({ type: 'list', items: list });
+      list = [];
+    }
+  };
+
+  for (const rawLine of markdown.split('\n')) {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+
+    if (!line) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (/^(-{3,}|\*{3,})$/.test(line)) {
+      flush();
+      blocks.push({ type: 'rule' });
+    } else if (/^[-*•]\s+/.test(line)) {
+      if (paragraph.length > 0) flush();
+      list.push(line.replace(/^[-*•]\s+/, ''));
+    } else if (line.startsWith('>')) {
+      flush();
+      blocks.push({ type: 'quote', text: line.replace(/^>\s?/, '') });
+    } else if (REFERENCE_LINE.test(line)) {
+      // Each reference entry stays on its own line
+      flush();
+      blocks.push({ type: 'paragraph', text: line });
+    } else {
+      if (list.length > 0) flush();
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function parseInline(text: string): InlineSegment[] {
+  const segments: InlineSegment[] = [];
+  const pattern = /\*\*([^*]+)\*\*|\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)|\[(\d+(?:\s*,\s*\d+)*)\]/g;
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: text.substring(lastIndex, index) });
+    }
+    if (match[1]) {
+      segments.push({ text: match[1], bold: true });
+    } else if (match[2]) {
+      segments.push({ text: match[2], url: match[3] });
+    } else {
+      match[4].split(',').forEach(n => {
+        const number = parseInt(n.trim(), 10);
+        segments.push({ text: `[${number}]`, citation: number });
+      });
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.substring(lastIndex) });
+  }
+
+  return segments;
+}
+
+function plainText(text: string): string {
+  return parseInline(text).map(segment => segment.text).join('');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Key facts shown under the title of every export
+function reportMetadata(result: ResearchResult): Array<[string, string]> {
+  const metadata: Array<[string, string]> = [
+    ['Query', result.original_query],
+    ['Generated', new Date(result.timestamp).toLocaleString()],
+    ['Sources', `${result.total_sources}`],
+    ['Research time', `${result.research_time.toFixed(1)}s`]
+  ];
+  if (result.topic_type) {
+    metadata.push(['Topic', result.topic_type.replace(/_/g, ' ')]);
+  }
+  if (result.status !== 'completed') {
+    metadata.push(['Status', result.status.replace('_', ' ')]);
+  }
+  if (result.source_utilization?.verificationReport) {
+    metadata.push(['Verification', result.source_utilization.verificationReport.split('\n')[0]]);
+  }
+  return metadata;
+}
+
+// Report body with a reference list, appending one if the synthesis lacks it
+function reportWithReferences(result: ResearchResult): string {
+  if (/^## References\s*$/m.test(result.final_synthesis) || result.all_sources.length === 0) {
+    return result.final_synthesis;
+  }
+  return `${result.final_synthesis}\n\n## References\n\n${result.all_sources.map(formatReference).join('\n')}`;
+}
+
+function reportTitle(result: ResearchResult): string {
+  const heading = result.final_synthesis.match(/^#\s+(.+)$/m);
+  return heading ? plainText(heading[1]) : result.original_query;
+}
+
+// Body without a leading H1 that would duplicate the export's own title
+function reportBody(result: ResearchResult): string {
+  return reportWithReferences(result).replace(/^\s*#\s+[^\n]*\n/, '');
+}
+
+export function exportFileName(result: ResearchResult, format: ExportFormat): string {
+  const slug = result.original_query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 60) || 'research';
+  const date = result.timestamp.split('T')[0];
+  const extension = format === 'markdown' ? 'md' : format === 'json' ? 'research.json' : format;
+  return `${slug}-${date}.${extension}`;
+}
+
+export function buildMarkdownExport(result: ResearchResult): string {
+  const metadata = reportMetadata(result).map(([label, value]) => `- **${label}:** ${value}`).join('\n');
+  return `# ${reportTitle(result)}\n\n${metadata}\n\n---\n\n${reportBody(result).trim()}\n`;
+}
+
+export function buildHtmlExport(result: ResearchResult): string {
+  const inlineHtml = (text: string) => parseInline(text).map(segment => {
+    if (segment.citation) {
+      return `<sup><a class="citation" href="#ref-${segment.citation}">${segment.citation}</a></sup>`;
+    }
+    if (segment.url) {
+      return `<a href="${escapeHtml(segment.url)}">${escapeHtml(segment.text)}</a>`;
+    }
+    return segment.bold ? `<strong>${escapeHtml(segment.text)}</strong>` : escapeHtml(segment.text);
+  }).join('');
+
+  const body = parseReportBlocks(reportBody(result)).map(block => {
+    switch (block.type) {
+      case 'heading': {
+        const level = Math.min(Math.max(block.level, 2), 6); // H1 is reserved for the report title
+        return `<h${level}>${inlineHtml(block.text)}</h${level}>`;
+      }
+      case 'list':
+        return `<ul>${block.items.map(item => `<li>${inlineHtml(item)}</li>`).join('')}</ul>`;
+      case 'quote':
+        return `<blockquote>${inlineHtml(block.text)}</blockquote>`;
+      case 'rule':
+        return '<hr>';
+      case 'paragraph': {
+        const reference = block.text.match(REFERENCE_LINE);
+        return reference
+          ? `<p class="reference" id="ref-${reference[1]}">[${reference[1]}] ${inlineHtml(block.text.replace(REFERENCE_LINE, ''))}</p>`
+          : `<p>${inlineHtml(block.text)}</p>`;
+      }
+    }
+  }).join('\n');
+
+  const metadata = reportMetadata(result)
+    .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(reportTitle(result))}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1f2328; max-width: 760px; margin: 48px auto; padding: 0 24px; line-height: 1.65; }
+  h1, h2, h3, h4 { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.3; }
+  h1 { font-size: 2em; margin-bottom: 0.3em; }
+  h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: 0.2em; margin-top: 2em; }
+  dl.meta { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; font-family: 'Helvetica Neue', Arial, sans-serif; font-size: 0.9em; color: #57606a; border-bottom: 2px solid #F05A28; padding-bottom: 16px; }
+  dl.meta dt { font-weight: 600; }
+  dl.meta dd { margin: 0; }
+  a { color: #C2410C; }
+  a.citation { text-decoration: none; font-size: 0.8em; }
+  blockquote { border-left: 4px solid #F05A28; margin: 1em 0; padding: 0.5em 1em; background: #FFF7ED; }
+  p.reference { font-size: 0.9em; margin: 0.3em 0; }
+  p.reference:target { background: #FFEDD5; }
+  hr { border: none; border-top: 1px solid #e5e7eb; margin: 2em 0; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(reportTitle(result))}</h1>
+<dl class="meta">${metadata}</dl>
+${body}
+</body>
+</html>
+`;
+}
+
+export async function buildPdfExport(result: ResearchResult): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const margin = 56;
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const textWidth = pageWidth - margin * 2;
+  let y = margin;
+
+  const write = (text: string, options: { size?: number; bold?: boolean; indent?: number; gapAfter?: number; color?: number } = {}) => {
+    const size = options.size || 10.5;
+    const indent = options.indent || 0;
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    doc.setTextColor(options.color ?? 31);
+    const lines: string[] = doc.splitTextToSize(text, textWidth - indent);
+    const lineHeight = size * 1.45;
+    for (const line of lines) {
+      if (y + lineHeight > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin + indent, y + size);
+      y += lineHeight;
+    }
+    y += options.gapAfter ?? 6;
+  };
+
+  write(reportTitle(result), { size: 20, bold: true, gapAfter: 10 });
+  reportMetadata(result).forEach(([label, value]) => write(`${label}: ${value}`, { size: 9, color: 90, gapAfter: 1 }));
+  y += 14;
+
+  for (const block of parseReportBlocks(reportBody(result))) {
+    switch (block.type) {
+      case 'heading':
+        y += 8;
+        write(plainText(block.text), { size: block.level <= 2 ? 15 : 12.5, bold: true, gapAfter: 4 });
+        break;
+      case 'list':
+        block.items.forEach(item => write(`•  ${plainText(item)}`, { indent: 12, gapAfter: 3 }));
+        y += 4;
+        break;
+      case 'quote':
+        write(plainText(block.text), { indent: 16, color: 90 });
+        break;
+      case 'rule':
+        y += 6;
+        break;
+      case 'paragraph': {
+        // Reference entries print their URL so the PDF works on paper
+        const reference = block.text.match(/^\[(\d+)\]\s+\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)(.*)$/);
+        if (reference) {
+          write(`[${reference[1]}] ${reference[2]}${reference[4]}`, { size: 9, gapAfter: 0 });
+          write(reference[3], { size: 8, indent: 16, color: 110, gapAfter: 4 });
+        } else {
+          write(plainText(block.text));
+        }
+        break;
+      }
+    }
+  }
+
+  return doc.output('blob');
+}
+
+export async function buildDocxExport(result: ResearchResult): Promise<Blob> {
+  const { Document, ExternalHyperlink, HeadingLevel, InternalHyperlink, Bookmark, Packer, Paragraph, TextRun } = await import('docx');
+
+  const headingLevels = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4];
+
+  const inlineRuns = (text: string) => parseInline(text).map(segment => {
+    if (segment.citation) {
+      return new InternalHyperlink({
+        anchor: `ref-${segment.citation}`,
+        children: [new TextRun({ text: `${segment.citation}`, superScript: true, style: 'Hyperlink' })]
+      });
+    }
+    if (segment.url) {
+      return new ExternalHyperlink({
+        link: segment.url,
+        children: [new TextRun({ text: segment.text, style: 'Hyperlink' })]
+      });
+    }
+    return new TextRun({ text: segment.text, bold: segment.bold });
+  });
+
+  const paragraphs = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(reportTitle(result))] }),
+    ...reportMetadata(result).map(([label, value]) => new Paragraph({
+      children: [new TextRun({ text: `${label}: `, bold: true, size: 18 }), new TextRun({ text: value, size: 18 })]
+    })),
+    new Paragraph({ text: '' })
+  ];
+
+  for (const block of parseReportBlocks(reportBody(result))) {
+    switch (block.type) {
+      case 'heading':
+        // Report H2s become Word Heading 1 since the title uses the Title style
+        paragraphs.push(new Paragraph({
+          heading: headingLevels[Math.min(Math.max(block.level - 2, 0), headingLevels.length - 1)],
+          children: [new TextRun(plainText(block.text))]
+        }));
+        break;
+      case 'list':
+        block.items.forEach(item => paragraphs.push(new Paragraph({ bullet: { level: 0 }, children: inlineRuns(item) })));
+        break;
+      case 'quote':
+        paragraphs.push(new Paragraph({ indent: { left: 720 }, children: [new TextRun({ text: plainText(block.text), italics: true })] }));
+        break;
+      case 'rule':
+        paragraphs.push(new Paragraph({ text: '' }));
+        break;
+      case 'paragraph': {
+        const reference = block.text.match(REFERENCE_LINE);
+        paragraphs.push(reference
+          ? new Paragraph({
+              children: [new Bookmark({
+                id: `ref-${reference[1]}`,
+                children: [new TextRun(`[${reference[1]}] `), ...inlineRuns(block.text.replace(REFERENCE_LINE, ''))]
+              })]
+            })
+          : new Paragraph({ spacing: { after: 160 }, children: inlineRuns(block.text) }));
+        break;
+      }
+    }
+  }
+
+  const doc = new Document({
+    title: reportTitle(result),
+    description: result.original_query,
+    sections: [{ children: paragraphs }]
+  });
+
+  return Packer.toBlob(doc);
+}
+
+// Build the requested format and hand it to the browser as a download.
+// A checkpoint, when given, is embedded in JSON bundles so the run can be continued after import.
+export async function exportReport(result: ResearchResult, format: ExportFormat, checkpoint?: ResearchCheckpoint | null): Promise<void> {
+  let blob: Blob;
+  switch (format) {
+    case 'markdown':
+      blob = new Blob([buildMarkdownExport(result)], { type: 'text/markdown;charset=utf-8' });
+      break;
+    case 'html':
+      blob = new Blob([buildHtmlExport(result)], { type: 'text/html;charset=utf-8' });
+      break;
+    case 'pdf':
+      blob = await buildPdfExport(result);
+      break;
+    case 'docx':
+      blob = await buildDocxExport(result);
+      break;
+    case 'json':
+      blob = new Blob([serializeBundle(createBundle(result, checkpoint))], { type: 'application/json' });
+      break;
+  }
+
+  downloadBlob(blob, exportFileName(result, format));
+  console.log(`📤 Exported report as ${format}`);
+}
+
+// Hand a generated file to the browser as a download
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,149 @@
+import { ResearchCheckpoint, ResearchResult, ResearchStatus } from './api';
+import { parseCheckpoint } from './bundle';
+
+// A saved research run as stored in IndexedDB
+export interface HistoryEntry {
+  id: string;
+  title: string; // Defaults to the query; users can rename it
+  query: string;
+  timestamp: string;
+  status: ResearchStatus;
+  total_sources: number;
+  result: ResearchResult; // Full result: report, sources with content, model usage
+}
+
+const DB_NAME = 'cerebras-deep-research';
+const DB_VERSION = 2;
+const REPORTS_STORE = 'reports';
+const CHECKPOINTS_STORE = 'checkpoints';
+const CURRENT_CHECKPOINT_KEY = 'current'; // Only the most recent unfinished run can be resumed
+
+// Wrap an IDBRequest in a promise
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Local, per-browser history of finished research runs
+class ResearchHistory {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this environment'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(REPORTS_STORE)) {
+            const store = db.createObjectStore(REPORTS_STORE, { keyPath: 'id' });
+            store.createIndex('timestamp', 'timestamp');
+          }
+          if (!db.objectStoreNames.contains(CHECKPOINTS_STORE)) {
+            db.createObjectStore(CHECKPOINTS_STORE);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private static async store(mode: IDBTransactionMode, name: string = REPORTS_STORE): Promise<IDBObjectStore> {
+    const db = await this.openDatabase();
+    return db.transaction(name, mode).objectStore(name);
+  }
+
+  static async save(result: ResearchResult): Promise<HistoryEntry> {
+    const entry: HistoryEntry = {
+      id: `${Date.parse(result.timestamp) || Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      title: result.original_query,
+      query: result.original_query,
+      timestamp: result.timestamp,
+      status: result.status,
+      total_sources: result.total_sources,
+      result
+    };
+    await requestToPromise((await this.store('readwrite')).put(entry));
+    console.log(`💾 Saved research to history: "${entry.title}"`);
+    return entry;
+  }
+
+  // All entries, newest first
+  static async list(): Promise<HistoryEntry[]> {
+    const entries = await requestToPromise((await this.store('readonly')).getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  static async get(id: string): Promise<HistoryEntry | null> {
+    const entry = await requestToPromise((await this.store('readonly')).get(id) as IDBRequest<HistoryEntry | undefined>);
+    return entry || null;
+  }
+
+  static async rename(id: string, title: string): Promise<HistoryEntry | null> {
+    const entry = await this.get(id);
+    if (!entry) return null;
+
+    const renamed = { ...entry, title: title.trim() || entry.query };
+    await requestToPromise((await this.store('readwrite')).put(renamed));
+    return renamed;
+  }
+
+  // Replace an entry's result, e.g. after a follow-up question added turns and sources
+  static async updateResult(id: string, result: ResearchResult): Promise<HistoryEntry | null> {
+    const entry = await this.get(id);
+    if (!entry) return null;
+
+    const updated = { ...entry, total_sources: result.total_sources, result };
+    await requestToPromise((await this.store('readwrite')).put(updated));
+    return updated;
+  }
+
+  static async remove(id: string): Promise<void> {
+    await requestToPromise((await this.store('readwrite')).delete(id));
+  }
+
+  // Checkpoint of the run in progress, replaced after every completed stage
+  static async saveCheckpoint(checkpoint: ResearchCheckpoint): Promise<void> {
+    await requestToPromise((await this.store('readwrite', CHECKPOINTS_STORE)).put(checkpoint, CURRENT_CHECKPOINT_KEY));
+  }
+
+  static async loadCheckpoint(): Promise<ResearchCheckpoint | null> {
+    const stored = await requestToPromise(
+      (await this.store('readonly', CHECKPOINTS_STORE)).get(CURRENT_CHECKPOINT_KEY) as IDBRequest<unknown>
+    );
+    if (stored === undefined) return null;
+    // A checkpoint the app cannot resume would break the resume banner on every load, so it is discarded
+    const checkpoint = parseCheckpoint(stored);
+    if (!checkpoint) {
+      console.warn('⚠️ Discarding a saved checkpoint that cannot be resumed');
+      await this.clearCheckpoint();
+    }
+    return checkpoint;
+  }
+
+  static async clearCheckpoint(): Promise<void> {
+    await requestToPromise((await this.store('readwrite', CHECKPOINTS_STORE)).delete(CURRENT_CHECKPOINT_KEY));
+  }
+}
+
+// Case-insensitive match on title, query and report text
+export function matchesHistorySearch(entry: HistoryEntry, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [entry.title, entry.query, entry.result.final_synthesis]
+    .some(text => text.toLowerCase().includes(needle));
+}
+
+export { ResearchHistory };
@@ -0,0 +1,130 @@
+/**
+ * Language model providers
+ * The engine reaches models through LLMProvider, a client for the OpenAI-compatible chat completions
+ * API. Cerebras is the built-in provider; any server speaking the same API (vLLM, llama.cpp server,
+ * Ollama, other hosted APIs) is added with its base URL, auth header and model list, and providers
+ * can be mixed in one run.
+ */
+
+export const CEREBRAS_PROVIDER = 'cerebras';
+
+export interface LLMProviderConfig {
+  name: string; // Shown in logs; qualifies model names when providers are mixed, e.g. "local/llama3.1:8b"
+  baseUrl?: string; // Up to and including the API version, e.g. http://localhost:11434/v1. Unset only for "cerebras"
+  apiKey?: string;
+  authHeader?: string; // Header carrying the key: Authorization (default) gets "Bearer <key>", others the bare key
+  models?: string[]; // Required except for "cerebras", which defaults to the environment's models
+  contextWindows?: Record<string, number>; // Tokens per model; unset models use context.ts defaults
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  max_tokens: number;
+  temperature: number;
+  top_p: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly models: string[];
+  hasCredentials(): boolean;
+  contextWindow(model: string): number | undefined;
+  // The raw response, so callers can react to rate limits (429) and other statuses per model
+  chatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  readonly models: string[];
+  private baseUrl: string;
+
+  constructor(
+    private config: LLMProviderConfig & { baseUrl: string; keyRequired?: boolean; headers?: Record<string, string> },
+    private fetchImpl: typeof fetch
+  ) {
+    this.name = config.name;
+    this.models = [...(config.models || [])];
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+  }
+
+  // Hosted APIs need a key; self-hosted servers usually do not
+  hasCredentials(): boolean {
+    return !this.config.keyRequired || !!this.config.apiKey;
+  }
+
+  contextWindow(model: string): number | undefined {
+    return this.config.contextWindows?.[model];
+  }
+
+  // Keys only ever travel in headers
+  private authHeaders(): Record<string, string> {
+    if (!this.config.apiKey) return {};
+    const header = this.config.authHeader || 'Authorization';
+    return { [header]: header.toLowerCase() === 'authorization' ? `Bearer ${this.config.apiKey}` : this.config.apiKey };
+  }
+
+  chatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> {
+    return this.fetchImpl(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...this.config.headers,
+        ...this.authHeaders(),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(request),
+      signal
+    });
+  }
+}
+
+// Check provider configurations from settings or LLM_PROVIDERS; throws with a readable message
+export function normalizeLLMProviders(input: unknown): LLMProviderConfig[] {
+  if (!Array.isArray(input)) {
+    throw new Error('Model providers must be a list');
+  }
+  const names = new Set<string>();
+  return input.map((entry: any, index) => {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    if (!name || name.includes('/')) {
+      throw new Error(`Model provider ${index + 1} needs a name without "/"`);
+    }
+    if (names.has(name)) {
+      throw new Error(`Model provider "${name}" is listed twice`);
+    }
+    names.add(name);
+
+    const baseUrl = typeof entry.baseUrl === 'string' ? entry.baseUrl.trim().replace(/\/+$/, '') : '';
+    if (!baseUrl && name !== CEREBRAS_PROVIDER) {
+      throw new Error(`Model provider "${name}" needs a base URL, e.g. http://localhost:8000/v1`);
+    }
+    const models = Array.isArray(entry.models)
+      ? entry.models.filter((model: unknown) => typeof model === 'string' && model.trim()).map((model: string) => model.trim())
+      : [];
+    if (baseUrl && models.length === 0) {
+      throw new Error(`Model provider "${name}" needs at least one model`);
+    }
+
+    const contextWindows: Record<string, number> = {};
+    for (const [model, tokens] of Object.entries(entry.contextWindows || {})) {
+      if (!Number.isInteger(tokens) || (tokens as number) < 1024) {
+        throw new Error(`Model provider "${name}": context window of ${model} must be a whole number of at least 1024 tokens`);
+      }
+      contextWindows[model] = tokens as number;
+    }
+
+    return {
+      name,
+      ...(baseUrl && { baseUrl }),
+      ...(typeof entry.apiKey === 'string' && entry.apiKey.trim() && { apiKey: entry.apiKey.trim() }),
+      ...(typeof entry.authHeader === 'string' && entry.authHeader.trim() && { authHeader: entry.authHeader.trim() }),
+      ...(models.length > 0 && { models }),
+      ...(Object.keys(contextWindows).length > 0 && { contextWindows })
+    };
+  });
+}
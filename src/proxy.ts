@@ -0,0 +1,217 @@
+/**
+ * Server-side proxy for the Exa and Cerebras APIs
+ * Injects API keys from server configuration, enforces per-user quotas and keeps keys out of URLs
+ * and logs. Built on the Fetch API Request/Response, so the same handler runs in the Node research
+ * server and as a Netlify function.
+ *
+ *   /api/exa/{search,contents,findSimilar}       -> https://api.exa.ai/...
+ *   /api/cerebras/v1/{chat/completions,models}   -> https://api.cerebras.ai/v1/...
+ *   /api/proxy/status                            which services have server-side keys
+ *
+ * With an access token set, only callers sending it in x-proxy-token get the server's keys;
+ * everyone else has to bring their own.
+ */
+
+import { createHash } from 'node:crypto';
+import { ApiEndpoints, DIRECT_ENDPOINTS } from './environment';
+
+type ProxiedService = 'exa' | 'cerebras';
+
+export interface ProxyConfig {
+  exaApiKey: string | null; // When null, the caller's own key is forwarded
+  cerebrasApiKey: string | null;
+  accessToken: string | null; // Required in x-proxy-token to use the server's keys; null lets anyone use them
+  upstreams: ApiEndpoints;
+  quotas: Record<ProxiedService, number>; // Requests per user per window; 0 disables the quota
+  quotaWindowMs: number;
+  fetch: typeof fetch;
+}
+
+// Only these upstream paths are reachable, so the proxy cannot be used as an open relay
+const ALLOWED_PATHS: Record<ProxiedService, string[]> = {
+  exa: ['search', 'contents', 'findSimilar'],
+  cerebras: ['v1/chat/completions', 'v1/models']
+};
+
+const ROUTE_PATTERN = /^(?:\/api)?\/(exa|cerebras|proxy)\/(.+)$/;
+
+export function proxyConfigFromVariables(
+  variables: Record<string, string | undefined>,
+  overrides: Partial<ProxyConfig> = {}
+): ProxyConfig {
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value || '', 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+  return {
+    exaApiKey: variables.EXA_API_KEY?.trim() || null,
+    cerebrasApiKey: variables.CEREBRAS_API_KEY?.trim() || null,
+    accessToken: variables.PROXY_TOKEN?.trim() || null,
+    upstreams: {
+      exa: variables.EXA_BASE_URL?.replace(/\/+$/, '') || DIRECT_ENDPOINTS.exa,
+      cerebras: variables.CEREBRAS_BASE_URL?.replace(/\/+$/, '') || DIRECT_ENDPOINTS.cerebras
+    },
+    quotas: {
+      exa: number(variables.PROXY_EXA_QUOTA, 600),
+      cerebras: number(variables.PROXY_CEREBRAS_QUOTA, 400)
+    },
+    quotaWindowMs: number(variables.PROXY_QUOTA_WINDOW_MINUTES, 60) * 60000,
+    fetch: (input, init) => fetch(input, init),
+    ...overrides
+  };
+}
+
+// Whether a path belongs to the proxy; the /api prefix is optional because the dev server strips it
+export function isProxyPath(pathname: string): boolean {
+  return ROUTE_PATTERN.test(pathname);
+}
+
+// Replace API keys (and anything that looks like a bearer token) before text reaches a log
+export function redactSecrets(text: string, secrets: Array<string | null | undefined> = []): string {
+  let redacted = text
+    .replace(/(api_key=)[^&\s"]+/gi, '$1[redacted]')
+    .replace(/(Bearer\s+)[\w.-]+/gi, '$1[redacted]')
+    .replace(/("?x-api-key"?\s*[:=]\s*"?)[\w-]+/gi, '$1[redacted]');
+  for (const secret of secrets) {
+    if (secret && secret.length >= 6) {
+      redacted = redacted.split(secret).join('[redacted]');
+    }
+  }
+  return redacted;
+}
+
+// Fixed-window request counter per user and service. In-memory: each server or function instance
+// counts separately, which makes the quota a per-instance upper bound rather than a global one.
+class QuotaTracker {
+  private windows = new Map<string, { start: number; count: number }>();
+
+  take(key: string, limit: number, windowMs: number): { allowed: boolean; retryAfterSeconds: number } {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || now - window.start >= windowMs) {
+      window = { start: now, count: 0 };
+      this.windows.set(key, window);
+      this.prune(now, windowMs);
+    }
+    if (window.count >= limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000) };
+    }
+    window.count++;
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+
+  private prune(now: number, windowMs: number) {
+    for (const [key, window] of this.windows) {
+      if (now - window.start >= windowMs) this.windows.delete(key);
+    }
+  }
+}
+
+const quotaTracker = new QuotaTracker();
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+// Key the caller sent itself, in the header style of the service
+function callerKey(request: Request, service: ProxiedService): string | null {
+  if (service === 'exa') {
+    return request.headers.get('x-api-key')?.trim() || null;
+  }
+  return request.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim() || null;
+}
+
+// Users are told apart by their own API key when they bring one, otherwise by client address.
+// Callers can forge forwarding headers, so only Netlify's own header is read; other hosts pass the address they saw.
+function userId(request: Request, ownKey: string | null, clientAddress?: string): string {
+  if (ownKey) {
+    return `key:${createHash('sha256').update(ownKey).digest('hex').substring(0, 12)}`;
+  }
+  return `ip:${clientAddress || request.headers.get('x-nf-client-connection-ip') || 'unknown'}`;
+}
+
+export async function handleProxyRequest(request: Request, config: ProxyConfig, clientAddress?: string): Promise<Response> {
+  const url = new URL(request.url);
+  const route = url.pathname.match(ROUTE_PATTERN);
+  if (!route) {
+    return jsonResponse(404, { error: 'Not a proxy route' });
+  }
+
+  if (route[1] === 'proxy') {
+    if (route[2] !== 'status') return jsonResponse(404, { error: 'Not found' });
+    // Browsers hold no access token, so keys behind one do not count as available to them
+    const open = !config.accessToken;
+    return jsonResponse(200, { exa: open && !!config.exaApiKey, cerebras: open && !!config.cerebrasApiKey, token_required: !open });
+  }
+
+  const service = route[1] as ProxiedService;
+  const path = route[2];
+  if (!ALLOWED_PATHS[service].includes(path)) {
+    return jsonResponse(404, { error: `${service} path "${path}" is not proxied` });
+  }
+  if (request.method !== 'POST' && request.method !== 'GET') {
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  const ownKey = callerKey(request, service);
+  const authorized = !config.accessToken || request.headers.get('x-proxy-token') === config.accessToken;
+  const serverKey = authorized ? (service === 'exa' ? config.exaApiKey : config.cerebrasApiKey) : null;
+  const apiKey = serverKey || ownKey;
+  if (!apiKey) {
+    return jsonResponse(401, {
+      error: authorized
+        ? `No ${service === 'exa' ? 'Exa' : 'Cerebras'} API key is configured on the proxy`
+        : 'The proxy\'s API keys need its access token (x-proxy-token); send your own key instead'
+    });
+  }
+
+  const user = userId(request, serverKey ? null : ownKey, clientAddress);
+  const limit = config.quotas[service];
+  if (limit > 0) {
+    const quota = quotaTracker.take(`${service}:${user}`, limit, config.quotaWindowMs);
+    if (!quota.allowed) {
+      console.warn(`🚦 Proxy quota reached for ${user} on ${service} (${limit} requests per ${config.quotaWindowMs / 60000} min)`);
+      return jsonResponse(
+        429,
+        { error: `Proxy quota of ${limit} ${service} requests exceeded, retry in ${quota.retryAfterSeconds}s` },
+        { 'Retry-After': String(quota.retryAfterSeconds) }
+      );
+    }
+  }
+
+  // Keys travel only in headers; the caller's query string (where ?api_key= used to go) is dropped
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (service === 'exa') {
+    headers['x-api-key'] = apiKey;
+  } else {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  const startTime = Date.now();
+  try {
+    const upstream = await config.fetch(`${config.upstreams[service]}/${path}`, {
+      method: request.method,
+      headers,
+      body: request.method === 'POST' ? await request.text() : undefined,
+      signal: request.signal
+    });
+    const body = await upstream.text();
+    const elapsed = Date.now() - startTime;
+    if (upstream.ok) {
+      console.log(`🔀 ${service}/${path} ${upstream.status} for ${user} (${elapsed}ms)`);
+    } else {
+      console.warn(`🔀 ${service}/${path} ${upstream.status} for ${user} (${elapsed}ms): ${redactSecrets(body.substring(0, 300), [apiKey])}`);
+    }
+    return new Response(body, {
+      status: upstream.status,
+      headers: { 'Content-Type': upstream.headers.get('content-type') || 'application/json' }
+    });
+  } catch (error) {
+    const message = redactSecrets(error instanceof Error ? error.message : String(error), [apiKey]);
+    console.error(`❌ Proxy request to ${service}/${path} failed for ${user}: ${message}`);
+    return jsonResponse(502, { error: `Could not reach the ${service === 'exa' ? 'Exa' : 'Cerebras'} API` });
+  }
+}
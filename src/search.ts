@@ -0,0 +1,359 @@
+/**
+ * Search providers
+ * Agents find and read sources through the SearchProvider interface. Exa is one provider
+ * (ExaAPIService in api.ts); this module adds a self-hosted SearxNG instance, a generic JSON search
+ * endpoint and a fixture-backed provider for offline runs, and fans a search out across several.
+ */
+
+import type { SearchSettings } from './api';
+import type { ResearchEnvironment } from './environment';
+import { htmlToText, searchDocuments } from './documents';
+
+export interface SearchResult {
+  url: string;
+  title: string;
+  score?: number; // 0-1 relevance when the provider reports one
+  text?: string; // Full text or a snippet, when the provider returns one with the result
+  published_date?: string; // ISO date when known
+}
+
+export interface PageContents {
+  url: string;
+  text: string;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, numResults: number, signal?: AbortSignal, settings?: SearchSettings): Promise<SearchResult[]>;
+  getContents(urls: string[], signal?: AbortSignal): Promise<PageContents[]>;
+  findSimilar?(url: string, numResults: number, signal?: AbortSignal, settings?: SearchSettings): Promise<SearchResult[]>;
+}
+
+// Entries of a fixture file: { "results": [...] } or a bare array
+export interface FixtureEntry {
+  url: string;
+  title: string;
+  text: string;
+  published_date?: string;
+}
+
+export type SearchProviderConfig =
+  | { type: 'exa' }
+  | { type: 'searxng'; url: string } // Instance base URL; its JSON format must be enabled
+  | { type: 'json'; url: string; apiKey?: string } // See JsonSearchProvider for the expected shape
+  | { type: 'fixture'; url?: string; results?: FixtureEntry[] }; // url is fetched once; Node hosts pass results
+
+export const DEFAULT_SEARCH_PROVIDERS: SearchProviderConfig[] = [{ type: 'exa' }];
+
+// Below this many characters a provider's text is treated as a snippet and the page itself is fetched
+const MIN_CONTENT_CHARS = 1500;
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// Whether a URL's host is one of the domains or a subdomain of one
+export function matchesDomain(url: string, domains: string[]): boolean {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return domains.some(domain => host === domain || host.endsWith(`.${domain}`));
+  } catch {
+    return false;
+  }
+}
+
+// Enforce the domain lists and date range on results; results without a date are kept
+export function filterResults(results: SearchResult[], settings: SearchSettings = {}): SearchResult[] {
+  return results.filter(result => {
+    if (settings.include_domains?.length && !matchesDomain(result.url, settings.include_domains)) return false;
+    if (settings.exclude_domains?.length && matchesDomain(result.url, settings.exclude_domains)) return false;
+    const date = result.published_date?.substring(0, 10);
+    if (date && settings.start_published_date && date < settings.start_published_date) return false;
+    return !(date && settings.end_published_date && date > settings.end_published_date);
+  });
+}
+
+// "https://www.example.com/a/" and "http://example.com/a" are the same page
+function urlKey(url: string): string {
+  return url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/#.*$/, '').replace(/\/+$/, '');
+}
+
+function providerLabel(config: SearchProviderConfig): string {
+  return config.type === 'exa' || config.type === 'fixture' ? config.type : `${config.type} (${config.url})`;
+}
+
+// Providers that return snippets: text seen in results is kept, and pages are fetched for the full text.
+// In the browser most sites block cross-origin reads, so the snippet is often all there is.
+abstract class SnippetSearchProvider implements SearchProvider {
+  abstract readonly name: string;
+  private snippets = new Map<string, string>();
+
+  constructor(protected env: ResearchEnvironment) {}
+
+  abstract search(query: string, numResults: number, signal?: AbortSignal, settings?: SearchSettings): Promise<SearchResult[]>;
+
+  protected remember(results: SearchResult[]): SearchResult[] {
+    results.forEach(result => {
+      if (result.text) this.snippets.set(result.url, result.text);
+    });
+    return results;
+  }
+
+  async getContents(urls: string[], signal?: AbortSignal): Promise<PageContents[]> {
+    const contents: PageContents[] = [];
+    for (const url of urls) {
+      const snippet = this.snippets.get(url) || '';
+      let text = snippet;
+      if (snippet.length < MIN_CONTENT_CHARS) {
+        try {
+          const response = await this.env.fetch(url, { signal });
+          const type = response.headers.get('content-type') || '';
+          if (response.ok && /text\/(html|plain)/.test(type)) {
+            const page = await response.text();
+            const pageText = type.includes('html') ? htmlToText(page).text.replace(/\n{3,}/g, '\n\n').trim() : page;
+            if (pageText.length > snippet.length) text = pageText;
+          }
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.log(`📄 ${this.name}: could not read ${url}, using its snippet`);
+        }
+      }
+      if (text) contents.push({ url, text });
+    }
+    return contents;
+  }
+}
+
+// Self-hosted SearxNG metasearch: GET {url}/search?q=...&format=json
+class SearxngSearchProvider extends SnippetSearchProvider {
+  readonly name: string;
+
+  constructor(private baseUrl: string, env: ResearchEnvironment) {
+    super(env);
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.name = `SearxNG (${new URL(this.baseUrl, 'http://localhost').host})`;
+  }
+
+  async search(query: string, numResults: number, signal?: AbortSignal, settings: SearchSettings = {}): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ q: query, format: 'json' });
+    if (settings.category === 'news') params.set('categories', 'news');
+    const response = await this.env.fetch(`${this.baseUrl}/search?${params}`, { signal });
+    if (!response.ok) {
+      throw new Error(`SearxNG error: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    const results: SearchResult[] = (data.results || []).map((result: any) => ({
+      url: result.url,
+      title: result.title || result.url,
+      score: typeof result.score === 'number' ? Math.min(1, result.score / 10) : undefined,
+      text: result.content || '',
+      published_date: result.publishedDate || undefined
+    }));
+    return this.remember(filterResults(results.filter(result => result.url), settings).slice(0, numResults));
+  }
+}
+
+// Any search endpoint that answers GET requests with JSON. The query and count go in the
+// {query} and {limit} placeholders of the URL, or as q= and limit= when it has none. The response is
+// an array or has one under results, items or data; entries need url (or link) and title (or name),
+// and may have text, content, snippet or description, score and published_date.
+class JsonSearchProvider extends SnippetSearchProvider {
+  readonly name: string;
+
+  constructor(private endpoint: string, private apiKey: string | undefined, env: ResearchEnvironment) {
+    super(env);
+    this.name = `JSON search (${new URL(endpoint, 'http://localhost').host})`;
+  }
+
+  private searchUrl(query: string, numResults: number): string {
+    if (this.endpoint.includes('{query}')) {
+      return this.endpoint
+        .replace('{query}', encodeURIComponent(query))
+        .replace('{limit}', String(numResults));
+    }
+    const separator = this.endpoint.includes('?') ? '&' : '?';
+    return `${this.endpoint}${separator}${new URLSearchParams({ q: query, limit: String(numResults) })}`;
+  }
+
+  async search(query: string, numResults: number, signal?: AbortSignal, settings: SearchSettings = {}): Promise<SearchResult[]> {
+    const response = await this.env.fetch(this.searchUrl(query, numResults), {
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      signal
+    });
+    if (!response.ok) {
+      throw new Error(`JSON search error: ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    const entries: any[] = Array.isArray(data) ? data : data.results || data.items || data.data || [];
+    const results: SearchResult[] = entries
+      .map(entry => ({
+        url: entry.url || entry.link,
+        title: entry.title || entry.name || entry.url || entry.link,
+        score: typeof entry.score === 'number' ? entry.score : undefined,
+        text: entry.text || entry.content || entry.snippet || entry.description || '',
+        published_date: entry.published_date || entry.publishedDate || undefined
+      }))
+      .filter(result => typeof result.url === 'string' && result.url);
+    return this.remember(filterResults(results, settings).slice(0, numResults));
+  }
+}
+
+// Canned results matched to queries by term overlap, for offline runs, demos and repeatable tests
+class FixtureSearchProvider implements SearchProvider {
+  readonly name = 'Fixture';
+  private entries?: Promise<FixtureEntry[]>;
+
+  constructor(private config: { url?: string; results?: FixtureEntry[] }, private env: ResearchEnvironment) {}
+
+  private load(): Promise<FixtureEntry[]> {
+    if (!this.entries) {
+      this.entries = this.config.results
+        ? Promise.resolve(this.config.results)
+        : this.env.fetch(this.config.url || '').then(async response => {
+          if (!response.ok) throw new Error(`Search fixture ${this.config.url}: ${response.status}`);
+          const data = await response.json();
+          return Array.isArray(data) ? data : data.results || [];
+        });
+      this.entries.catch(() => { this.entries = undefined; }); // Retry the load on the next search
+    }
+    return this.entries;
+  }
+
+  async search(query: string, numResults: number, _signal?: AbortSignal, settings: SearchSettings = {}): Promise<SearchResult[]> {
+    const candidates = filterResults(await this.load(), settings)
+      .map(entry => ({ ...entry, content: entry.text || '' }));
+    return searchDocuments(candidates, query, numResults).map(({ document, score }) => ({
+      url: document.url,
+      title: document.title,
+      score,
+      text: document.text,
+      published_date: document.published_date
+    }));
+  }
+
+  async getContents(urls: string[]): Promise<PageContents[]> {
+    const entries = await this.load();
+    return urls.flatMap(url => {
+      const entry = entries.find(candidate => candidate.url === url);
+      return entry ? [{ url, text: entry.text || '' }] : [];
+    });
+  }
+}
+
+// Runs every search on all providers at once and interleaves their rankings, dropping duplicate
+// pages. A provider that fails (out of credits, unreachable) is skipped as long as another answers.
+class FanOutSearchProvider implements SearchProvider {
+  readonly name: string;
+  private owners = new Map<string, SearchProvider>(); // Which provider returned each URL, for its contents
+
+  constructor(private providers: SearchProvider[]) {
+    this.name = providers.map(provider => provider.name).join(' + ');
+  }
+
+  private async merge(
+    requests: Array<{ provider: SearchProvider; request: Promise<SearchResult[]> }>,
+    numResults: number
+  ): Promise<SearchResult[]> {
+    const settled = await Promise.allSettled(requests.map(({ request }) => request));
+
+    const rankings: Array<{ provider: SearchProvider; results: SearchResult[] }> = [];
+    const errors: unknown[] = [];
+    for (const [index, outcome] of settled.entries()) {
+      const provider = requests[index].provider;
+      if (outcome.status === 'fulfilled') {
+        rankings.push({ provider, results: outcome.value });
+        continue;
+      }
+      if (isAbortError(outcome.reason)) throw outcome.reason;
+      console.warn(`⚠️ ${provider.name} search failed:`, outcome.reason);
+      errors.push(outcome.reason);
+    }
+    if (rankings.length === 0 && errors.length > 0) throw errors[0];
+
+    const merged: SearchResult[] = [];
+    const seen = new Set<string>();
+    const longest = Math.max(0, ...rankings.map(ranking => ranking.results.length));
+    for (let rank = 0; rank < longest && merged.length < numResults; rank++) {
+      for (const { provider, results } of rankings) {
+        const result = results[rank];
+        if (!result || seen.has(urlKey(result.url))) continue;
+        seen.add(urlKey(result.url));
+        this.owners.set(result.url, provider);
+        merged.push(result);
+        if (merged.length >= numResults) break;
+      }
+    }
+    console.log(`🔀 Merged ${merged.length} results from ${rankings.map(ranking => `${ranking.provider.name}: ${ranking.results.length}`).join(', ')}`);
+    return merged;
+  }
+
+  search(query: string, numResults: number, signal?: AbortSignal, settings?: SearchSettings): Promise<SearchResult[]> {
+    return this.merge(this.providers.map(provider => ({
+      provider,
+      request: provider.search(query, numResults, signal, settings)
+    })), numResults);
+  }
+
+  findSimilar(url: string, numResults: number, signal?: AbortSignal, settings?: SearchSettings): Promise<SearchResult[]> {
+    return this.merge(this.providers.flatMap(provider => provider.findSimilar
+      ? [{ provider, request: provider.findSimilar(url, numResults, signal, settings) }]
+      : []), numResults);
+  }
+
+  async getContents(urls: string[], signal?: AbortSignal): Promise<PageContents[]> {
+    const byProvider = new Map<SearchProvider, string[]>();
+    for (const url of urls) {
+      const provider = this.owners.get(url) || this.providers[0];
+      byProvider.set(provider, [...(byProvider.get(provider) || []), url]);
+    }
+    const contents = await Promise.all([...byProvider].map(([provider, providerUrls]) => provider.getContents(providerUrls, signal)));
+    return contents.flat();
+  }
+}
+
+// The provider for a configuration; Exa's service is built by the engine and passed in
+export function createSearchProvider(configs: SearchProviderConfig[], env: ResearchEnvironment, exa: SearchProvider): SearchProvider {
+  const providers = configs.map(config => {
+    switch (config.type) {
+      case 'exa': return exa;
+      case 'searxng': return new SearxngSearchProvider(config.url, env);
+      case 'json': return new JsonSearchProvider(config.url, config.apiKey, env);
+      case 'fixture': return new FixtureSearchProvider(config, env);
+    }
+  });
+  if (providers.length === 0 || (providers.length === 1 && providers[0] === exa)) return exa;
+  console.log(`🔎 Search providers: ${configs.map(providerLabel).join(', ')}`);
+  return providers.length === 1 ? providers[0] : new FanOutSearchProvider(providers);
+}
+
+// "exa,searxng=https://searx.example.org,json=https://search.internal/api,fixture=fixtures/search.json"
+export function parseSearchProviders(value: string, jsonApiKey?: string): SearchProviderConfig[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [type, ...rest] = entry.split('=');
+    const url = rest.join('=').trim();
+    switch (type.trim().toLowerCase()) {
+      case 'exa': return { type: 'exa' } as const;
+      case 'searxng': return { type: 'searxng', url } as const;
+      case 'json': return { type: 'json', url, apiKey: jsonApiKey } as const;
+      case 'fixture': return { type: 'fixture', url } as const;
+      default: throw new Error(`Unknown search provider "${type}", use exa, searxng, json or fixture`);
+    }
+  }).map(config => {
+    if (config.type !== 'exa' && !config.url) {
+      throw new Error(`Search provider ${config.type} needs a URL, e.g. ${config.type}=https://...`);
+    }
+    return config;
+  });
+}
+
+// Node hosts read fixture files from disk up front; browsers fetch fixtures by URL when first searched
+export async function loadFixtureFiles(
+  configs: SearchProviderConfig[],
+  readFile: (path: string) => Promise<string>
+): Promise<SearchProviderConfig[]> {
+  return Promise.all(configs.map(async config => {
+    if (config.type !== 'fixture' || !config.url || /^https?:\/\//.test(config.url)) return config;
+    const data = JSON.parse(await readFile(config.url));
+    return { type: 'fixture', results: Array.isArray(data) ? data : data.results || [] } as const;
+  }));
+}
@@ -0,0 +1,372 @@
+/**
+ * Self-hostable research server
+ * Runs LeadResearcher behind a small HTTP API and streams progress over Server-Sent Events,
+ * so API keys stay on the server instead of in users' browsers.
+ *
+ *   POST   /research             start a run from a ResearchRequest body
+ *   GET    /research/:id         the ResearchResult once finished, run status while running
+ *   GET    /research/:id/events  ProgressUpdates as Server-Sent Events
+ *   DELETE /research/:id         stop a run; it finishes with whatever was gathered
+ *   GET    /health               liveness check
+ *   /exa/*, /cerebras/*, /proxy/status
+ *                                the API proxy (src/proxy.ts), also reachable with an /api prefix
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import { LeadResearcher, normalizeSearchSettings, ProgressUpdate, ResearchRequest, ResearchResult, SearchSettings } from './api';
+import { environmentFromVariables, ResearchEnvironment, usesCerebras, usesExa } from './environment';
+import { handleProxyRequest, isProxyPath, ProxyConfig, proxyConfigFromVariables } from './proxy';
+import { loadFixtureFiles } from './search';
+
+type RunStatus = 'running' | 'finished' | 'failed';
+
+interface ServerRun {
+  id: string;
+  request: ResearchRequest;
+  status: RunStatus;
+  created_at: string;
+  finished_at?: number;
+  latest?: ProgressUpdate; // Replayed to clients that connect mid-run
+  result?: ResearchResult;
+  error?: string;
+  abortController: AbortController;
+  subscribers: Set<ServerResponse>;
+}
+
+interface ServerConfig {
+  port: number;
+  host: string;
+  apiToken: string | null; // Bearer token required on every request when set
+  corsOrigin: string;
+  trustedProxies: string[]; // Reverse proxies whose X-Forwarded-For names the client, for proxy quotas
+  maxConcurrentRuns: number;
+  retentionMs: number; // How long finished runs stay available
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_PROXY_BODY_BYTES = 2 * 1024 * 1024; // Synthesis prompts carry many source excerpts
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+// Client address headers anyone can set; never passed on to the proxy
+const FORWARDING_HEADERS = ['x-forwarded-for', 'x-real-ip', 'x-nf-client-connection-ip'];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function readConfig(variables: Record<string, string | undefined>): ServerConfig {
+  return {
+    port: parseInt(variables.PORT || '8000', 10),
+    host: variables.HOST || '0.0.0.0',
+    apiToken: variables.RESEARCH_API_TOKEN?.trim() || null,
+    corsOrigin: variables.CORS_ORIGIN || '*',
+    trustedProxies: variables.RESEARCH_TRUSTED_PROXIES?.split(',').map(address => address.trim()).filter(Boolean) || [],
+    maxConcurrentRuns: Math.max(1, parseInt(variables.RESEARCH_MAX_CONCURRENT || '2', 10) || 2),
+    retentionMs: Math.max(1, parseInt(variables.RESEARCH_RETENTION_MINUTES || '60', 10) || 60) * 60000
+  };
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<any> {
+  const body = await readBody(req, MAX_BODY_BYTES);
+  try {
+    return body.length ? JSON.parse(body.toString('utf8')) : {};
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+// Accept only the known ResearchRequest fields, with the same bounds the engine applies
+function parseResearchRequest(body: any): ResearchRequest {
+  const query = typeof body?.query === 'string' ? body.query.trim() : '';
+  if (!query) {
+    throw new HttpError(400, 'Missing "query"');
+  }
+  const optionalInt = (name: string, min: number, max: number): number | undefined => {
+    const value = body[name];
+    if (value === undefined || value === null) return undefined;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new HttpError(400, `"${name}" must be a whole number between ${min} and ${max}`);
+    }
+    return value;
+  };
+  let search: SearchSettings | undefined;
+  try {
+    search = normalizeSearchSettings(body.search);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+  return {
+    query,
+    max_layers: optionalInt('max_layers', 1, 5),
+    sources_per_layer: optionalInt('sources_per_layer', 1, 200),
+    agent_count: optionalInt('agent_count', 1, 6),
+    search
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+}
+
+function sendEvent(res: ServerResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+function runSummary(run: ServerRun) {
+  return {
+    id: run.id,
+    status: run.status,
+    query: run.request.query,
+    created_at: run.created_at,
+    progress_percent: run.latest?.progress_percent || 0,
+    stage: run.latest?.stage || null,
+    error: run.error || null,
+    events_url: `/research/${run.id}/events`,
+    result_url: `/research/${run.id}`
+  };
+}
+
+class ResearchServer {
+  private runs = new Map<string, ServerRun>();
+
+  constructor(
+    private config: ServerConfig,
+    private environment: ResearchEnvironment,
+    private proxyConfig: ProxyConfig
+  ) {}
+
+  listen() {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        const status = error instanceof HttpError ? error.status : 500;
+        if (status === 500) console.error('❌ Server error:', error);
+        if (!res.headersSent) {
+          sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+        } else {
+          res.end();
+        }
+      });
+    });
+    server.listen(this.config.port, this.config.host, () => {
+      console.log(`🚀 Research server listening on http://${this.config.host}:${this.config.port}`);
+    });
+    setInterval(() => this.evictFinishedRuns(), 60000).unref();
+    return server;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    res.setHeader('Access-Control-Allow-Origin', this.config.corsOrigin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-api-key, x-proxy-token');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method === 'GET' && url.pathname === '/health') {
+      sendJson(res, 200, { status: 'ok', active_runs: this.activeRunCount() });
+      return;
+    }
+
+    // The proxy serves the browser app, which has no API token; only callers with the proxy's access token
+    // (PROXY_TOKEN, or RESEARCH_API_TOKEN) get the server's keys, and per-user quotas limit spending
+    if (isProxyPath(url.pathname)) {
+      await this.proxy(req, res, url);
+      return;
+    }
+
+    this.authorize(req, url);
+
+    if (url.pathname === '/research' && req.method === 'POST') {
+      const run = this.startRun(parseResearchRequest(await readJsonBody(req)));
+      sendJson(res, 202, runSummary(run));
+      return;
+    }
+
+    const match = url.pathname.match(/^\/research\/([\w-]+)(\/events)?$/);
+    const run = match ? this.runs.get(match[1]) : undefined;
+    if (!match) {
+      throw new HttpError(404, 'Not found');
+    }
+    if (!run) {
+      throw new HttpError(404, `No research run with id ${match[1]}`);
+    }
+
+    if (match[2] && req.method === 'GET') {
+      this.streamEvents(run, req, res);
+    } else if (!match[2] && req.method === 'GET') {
+      if (run.result) {
+        sendJson(res, 200, run.result);
+      } else {
+        sendJson(res, run.status === 'failed' ? 500 : 202, runSummary(run));
+      }
+    } else if (!match[2] && req.method === 'DELETE') {
+      run.abortController.abort();
+      sendJson(res, 202, runSummary(run));
+    } else {
+      throw new HttpError(405, 'Method not allowed');
+    }
+  }
+
+  // The connecting address, or the one a trusted reverse proxy appended to X-Forwarded-For
+  private clientAddress(req: IncomingMessage): string {
+    const peer = req.socket.remoteAddress || 'unknown';
+    const forwarded = req.headers['x-forwarded-for'];
+    if (typeof forwarded === 'string' && this.config.trustedProxies.includes(peer)) {
+      return forwarded.split(',').pop()!.trim() || peer;
+    }
+    return peer;
+  }
+
+  private async proxy(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (typeof value === 'string' && !FORWARDING_HEADERS.includes(name)) headers.set(name, value);
+    }
+
+    const request = new Request(url, {
+      method: req.method,
+      headers,
+      body: req.method === 'POST' ? await readBody(req, MAX_PROXY_BODY_BYTES) : undefined
+    });
+    const response = await handleProxyRequest(request, this.proxyConfig, this.clientAddress(req));
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  }
+
+  // EventSource cannot send headers, so the token may also come as ?token=
+  private authorize(req: IncomingMessage, url: URL) {
+    if (!this.config.apiToken) return;
+    const header = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    if (header !== this.config.apiToken && url.searchParams.get('token') !== this.config.apiToken) {
+      throw new HttpError(401, 'Missing or invalid API token');
+    }
+  }
+
+  private activeRunCount(): number {
+    return [...this.runs.values()].filter(run => run.status === 'running').length;
+  }
+
+  private startRun(request: ResearchRequest): ServerRun {
+    if (this.activeRunCount() >= this.config.maxConcurrentRuns) {
+      throw new HttpError(429, `Too many research runs in progress (limit ${this.config.maxConcurrentRuns}), try again later`);
+    }
+
+    const run: ServerRun = {
+      id: randomUUID(),
+      request,
+      status: 'running',
+      created_at: new Date().toISOString(),
+      abortController: new AbortController(),
+      subscribers: new Set()
+    };
+    this.runs.set(run.id, run);
+    console.log(`🔬 Starting research ${run.id}: "${request.query}"`);
+
+    // One researcher per run: it holds the run's signal, failures and seen URLs
+    const researcher = new LeadResearcher(this.environment);
+    researcher.orchestrateResearch(request, update => {
+      // The result is sent once as its own event rather than inside every progress update
+      run.latest = { ...update, final_result: null };
+      run.subscribers.forEach(res => sendEvent(res, 'progress', run.latest));
+    }, { signal: run.abortController.signal })
+      .then(result => {
+        run.status = 'finished';
+        run.result = result;
+        console.log(`✅ Research ${run.id} ${result.status} with ${result.total_sources} sources`);
+        run.subscribers.forEach(res => sendEvent(res, 'result', result));
+      })
+      .catch(error => {
+        run.status = 'failed';
+        run.error = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Research ${run.id} failed:`, run.error);
+        run.subscribers.forEach(res => sendEvent(res, 'error', { message: run.error }));
+      })
+      .finally(() => {
+        run.finished_at = Date.now();
+        run.subscribers.forEach(res => res.end());
+        run.subscribers.clear();
+      });
+
+    return run;
+  }
+
+  private streamEvents(run: ServerRun, req: IncomingMessage, res: ServerResponse) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop reverse proxies from buffering the stream
+    });
+
+    if (run.latest) sendEvent(res, 'progress', run.latest);
+    if (run.status !== 'running') {
+      if (run.result) sendEvent(res, 'result', run.result);
+      if (run.error) sendEvent(res, 'error', { message: run.error });
+      res.end();
+      return;
+    }
+
+    run.subscribers.add(res);
+    const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+    req.on('close', () => {
+      clearInterval(keepalive);
+      run.subscribers.delete(res);
+    });
+  }
+
+  private evictFinishedRuns() {
+    const cutoff = Date.now() - this.config.retentionMs;
+    for (const [id, run] of this.runs) {
+      if (run.finished_at && run.finished_at < cutoff) {
+        this.runs.delete(id);
+      }
+    }
+  }
+}
+
+const config = readConfig(process.env);
+const environment = environmentFromVariables(process.env);
+environment.searchProviders = await loadFixtureFiles(environment.searchProviders, path => readFile(path, 'utf8'));
+const missingKeys = environment.keysOnServer ? [] : [
+  usesExa(environment) && !environment.exaApiKey && 'EXA_API_KEY',
+  usesCerebras(environment) && !environment.cerebrasApiKey && 'CEREBRAS_API_KEY'
+].filter(Boolean);
+if (missingKeys.length > 0) {
+  console.error(`❌ Set ${missingKeys.join(' and ')} before starting the research server`);
+  process.exit(1);
+}
+const proxyConfig = proxyConfigFromVariables(process.env, {
+  accessToken: process.env.PROXY_TOKEN?.trim() || config.apiToken
+});
+if (!config.apiToken) {
+  console.warn('⚠️ RESEARCH_API_TOKEN is not set: anyone who can reach this server can spend your API credits');
+} else if (!proxyConfig.accessToken) {
+  console.warn('⚠️ PROXY_TOKEN is empty: the /api proxy lets anyone use the server\'s API keys');
+}
+
+new ResearchServer(config, environment, proxyConfig).listen();